@@ -0,0 +1,220 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { getAgentDir, parseFrontmatter } from "@mariozechner/pi-coding-agent";
+import { HISTORY_TOOLS } from "./history";
+
+export const RECON_TOOLS = ["read", "grep", "find", "ls", "symbols"] as const;
+
+export const AGENT_TOOLS = [...RECON_TOOLS, ...HISTORY_TOOLS] as const;
+
+export type AgentSource = "builtin" | "user" | "project";
+
+export type AgentDefinition = {
+   name: string;
+   description: string;
+   model?: string;
+   tools: string[];
+   maxTurns?: number;
+   maxToolCalls?: number;
+   systemPrompt: string;
+   source: AgentSource;
+   filePath?: string;
+};
+
+export type AgentDiagnostic = {
+   filePath: string;
+   name?: string;
+   message: string;
+};
+
+export interface LoadAgentProfilesResult {
+   agents: AgentDefinition[];
+   diagnostics: AgentDiagnostic[];
+}
+
+export interface LoadAgentProfilesOptions {
+   cwd: string;
+   userDir?: string;
+   projectDir?: string;
+}
+
+export class ReplicantAgentError extends Error {
+   constructor(
+      message: string,
+      readonly remediation?: string,
+      readonly diagnostics: AgentDiagnostic[] = [],
+   ) {
+      super(message);
+   }
+}
+
+export const DEFAULT_AGENT: AgentDefinition = {
+   name: "replicant",
+   description: "Offworld-powered codebase exploration specialist",
+   model: "claude-sonnet-4-5",
+   tools: [...RECON_TOOLS],
+   systemPrompt: [
+      "You are a reconnaissance specialist for external repositories resolved by Offworld.",
+      "",
+      "Use the provided referencePath and clonePath as primary context.",
+      "Prefer evidence from source files in the resolved clone and cite concrete line ranges.",
+      "",
+      "Return a direct answer to the task instead of filling a fixed template.",
+      "Cite file paths with line ranges for concrete code claims.",
+      "If evidence is partial, state uncertainty briefly and continue with the best-supported answer.",
+      "Use short bullets only when they improve clarity; otherwise respond in compact prose.",
+      "",
+      "Constraints:",
+      "- No edits; reconnaissance only.",
+      "- Do not claim facts without file-level evidence.",
+      "- Keep output concise, dense, and implementation-oriented.",
+   ].join("\n"),
+   source: "builtin",
+};
+
+const AGENT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+export function isValidAgentName(name: string): boolean {
+   return AGENT_NAME_PATTERN.test(name);
+}
+
+export function userAgentsDir(): string {
+   return path.join(getAgentDir(), "replicant", "agents");
+}
+
+export function projectAgentsDir(cwd: string): string {
+   return path.join(cwd, ".pi", "replicant", "agents");
+}
+
+function parseToolList(value: unknown): string[] | undefined {
+   if (value === undefined || value === null) return undefined;
+   if (typeof value === "string") {
+      return value
+         .split(",")
+         .map((tool) => tool.trim())
+         .filter(Boolean);
+   }
+   if (Array.isArray(value) && value.every((tool) => typeof tool === "string")) {
+      return value.map((tool) => tool.trim()).filter(Boolean);
+   }
+   throw new Error("tools must be a comma-separated string or a list of tool names");
+}
+
+function parsePositiveInteger(value: unknown, field: string): number | undefined {
+   if (value === undefined || value === null) return undefined;
+   if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+      throw new Error(`${field} must be a positive integer`);
+   }
+   return value;
+}
+
+function parseOptionalString(value: unknown, field: string): string | undefined {
+   if (value === undefined || value === null) return undefined;
+   if (typeof value !== "string" || !value.trim()) {
+      throw new Error(`${field} must be a non-empty string`);
+   }
+   return value.trim();
+}
+
+export function parseAgentProfile(content: string, filePath: string, source: AgentSource): AgentDefinition | AgentDiagnostic {
+   let frontmatter: Record<string, unknown>;
+   let body: string;
+   try {
+      ({ frontmatter, body } = parseFrontmatter(content));
+   } catch (error) {
+      return { filePath, message: `invalid frontmatter: ${error instanceof Error ? error.message : String(error)}` };
+   }
+
+   const name = typeof frontmatter.name === "string" ? frontmatter.name.trim() : undefined;
+   if (!name) return { filePath, message: "missing required frontmatter field: name" };
+   if (!isValidAgentName(name)) {
+      return { filePath, name, message: `invalid name "${name}": use letters, digits, '.', '_' or '-'` };
+   }
+
+   try {
+      const description = parseOptionalString(frontmatter.description, "description");
+      if (!description) throw new Error("missing required frontmatter field: description");
+      const tools = parseToolList(frontmatter.tools) ?? [...RECON_TOOLS];
+      if (tools.length === 0) throw new Error("tools must list at least one tool");
+      const disallowed = tools.filter((tool) => !(AGENT_TOOLS as readonly string[]).includes(tool));
+      if (disallowed.length > 0) {
+         throw new Error(`tools not allowed for replicant: ${disallowed.join(", ")} (allowed: ${AGENT_TOOLS.join(", ")})`);
+      }
+      if (!body.trim()) throw new Error("profile body (system prompt) is empty");
+
+      return {
+         name,
+         description,
+         model: parseOptionalString(frontmatter.model, "model"),
+         tools,
+         maxTurns: parsePositiveInteger(frontmatter.maxTurns, "maxTurns"),
+         maxToolCalls: parsePositiveInteger(frontmatter.maxToolCalls, "maxToolCalls"),
+         systemPrompt: body.trim(),
+         source,
+         filePath,
+      };
+   } catch (error) {
+      return { filePath, name, message: error instanceof Error ? error.message : String(error) };
+   }
+}
+
+async function loadAgentsFromDir(dir: string, source: AgentSource, result: LoadAgentProfilesResult): Promise<void> {
+   let entries: string[];
+   try {
+      entries = await fs.readdir(dir);
+   } catch {
+      return;
+   }
+
+   for (const entry of entries.filter((file) => file.endsWith(".md")).sort()) {
+      const filePath = path.join(dir, entry);
+      let content: string;
+      try {
+         content = await fs.readFile(filePath, "utf8");
+      } catch (error) {
+         result.diagnostics.push({ filePath, message: `unreadable: ${error instanceof Error ? error.message : String(error)}` });
+         continue;
+      }
+
+      // A later profile shadows earlier ones with the same name, valid or not, so a
+      // broken override never silently falls back to the profile it was meant to replace.
+      const parsed = parseAgentProfile(content, filePath, source);
+      if (!("systemPrompt" in parsed)) {
+         if (parsed.name) result.agents = result.agents.filter((agent) => agent.name !== parsed.name);
+         result.diagnostics.push(parsed);
+         continue;
+      }
+
+      result.agents = result.agents.filter((agent) => agent.name !== parsed.name);
+      result.diagnostics = result.diagnostics.filter((diagnostic) => diagnostic.name !== parsed.name);
+      result.agents.push(parsed);
+   }
+}
+
+export async function loadAgentProfiles(options: LoadAgentProfilesOptions): Promise<LoadAgentProfilesResult> {
+   const result: LoadAgentProfilesResult = { agents: [DEFAULT_AGENT], diagnostics: [] };
+   await loadAgentsFromDir(options.userDir ?? userAgentsDir(), "user", result);
+   await loadAgentsFromDir(options.projectDir ?? projectAgentsDir(options.cwd), "project", result);
+   return result;
+}
+
+export function selectAgent(profiles: LoadAgentProfilesResult, name = DEFAULT_AGENT.name): AgentDefinition {
+   const invalid = profiles.diagnostics.filter((diagnostic) => diagnostic.name === name);
+   if (invalid.length > 0) {
+      throw new ReplicantAgentError(
+         `Replicant agent profile "${name}" is invalid: ${invalid.map((diagnostic) => `${diagnostic.filePath}: ${diagnostic.message}`).join("; ")}`,
+         "Fix the profile frontmatter or remove the file.",
+         invalid,
+      );
+   }
+
+   const agent = profiles.agents.find((candidate) => candidate.name === name);
+   if (!agent) {
+      throw new ReplicantAgentError(
+         `Unknown replicant agent profile: ${name}`,
+         `Available profiles: ${profiles.agents.map((candidate) => candidate.name).join(", ")}.`,
+         profiles.diagnostics,
+      );
+   }
+   return agent;
+}
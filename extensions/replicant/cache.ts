@@ -0,0 +1,154 @@
+import { createHash, randomBytes } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { getAgentDir } from "@mariozechner/pi-coding-agent";
+import type { AgentDefinition } from "./agents";
+import type { ReplicantSubprocessDetails } from "./subproc";
+
+const CACHE_ENTRY_VERSION = 1;
+
+export interface AnswerCacheOptions {
+   dir: string;
+   ttlMs: number;
+   maxEntries: number;
+   maxBytes: number;
+   now?: () => number;
+}
+
+export interface AnswerCacheKeyInput {
+   commit: string;
+   task: string;
+   agent: Pick<AgentDefinition, "name" | "systemPrompt" | "tools">;
+   model?: string;
+   format?: string;
+   budget?: { maxTurns: number; maxToolCalls: number };
+}
+
+export interface AnswerCacheEntry {
+   version: number;
+   key: string;
+   createdAt: number;
+   lastAccessAt: number;
+   repo: string;
+   clonePath: string;
+   commit: string;
+   task: string;
+   agent: string;
+   model?: string;
+   finalText: string;
+   details: ReplicantSubprocessDetails;
+}
+
+export function defaultAnswerCacheDir(): string {
+   return path.join(getAgentDir(), "replicant", "cache", "answers");
+}
+
+export function normalizeTaskForCache(task: string): string {
+   return task.trim().replace(/\s+/g, " ");
+}
+
+export function answerCacheKey(input: AnswerCacheKeyInput): string {
+   const agentFingerprint = createHash("sha256")
+      .update(JSON.stringify([input.agent.systemPrompt, [...input.agent.tools].sort()]))
+      .digest("hex");
+   return createHash("sha256")
+      .update(
+         JSON.stringify({
+            commit: input.commit,
+            task: normalizeTaskForCache(input.task),
+            agent: input.agent.name,
+            agentFingerprint,
+            model: input.model ?? "",
+            format: input.format ?? "markdown",
+            budget: input.budget ? [input.budget.maxTurns, input.budget.maxToolCalls] : null,
+         }),
+      )
+      .digest("hex");
+}
+
+function entryPath(options: AnswerCacheOptions, key: string): string {
+   return path.join(options.dir, `${key}.json`);
+}
+
+async function readEntry(filePath: string): Promise<AnswerCacheEntry | undefined> {
+   try {
+      const entry = JSON.parse(await fs.readFile(filePath, "utf8")) as AnswerCacheEntry;
+      return entry?.version === CACHE_ENTRY_VERSION ? entry : undefined;
+   } catch {
+      return undefined;
+   }
+}
+
+async function removeEntry(filePath: string): Promise<void> {
+   await fs.rm(filePath, { force: true });
+}
+
+export async function readCachedAnswer(
+   options: AnswerCacheOptions,
+   key: string,
+   commit: string,
+): Promise<AnswerCacheEntry | undefined> {
+   const now = options.now?.() ?? Date.now();
+   const filePath = entryPath(options, key);
+   const entry = await readEntry(filePath);
+   if (!entry) return undefined;
+
+   if (entry.commit !== commit || now - entry.createdAt > options.ttlMs) {
+      await removeEntry(filePath);
+      return undefined;
+   }
+
+   entry.lastAccessAt = now;
+   await fs.writeFile(filePath, JSON.stringify(entry), "utf8").catch(() => undefined);
+   return entry;
+}
+
+export async function writeCachedAnswer(
+   options: AnswerCacheOptions,
+   entry: Omit<AnswerCacheEntry, "version" | "createdAt" | "lastAccessAt">,
+): Promise<AnswerCacheEntry> {
+   const now = options.now?.() ?? Date.now();
+   const stored: AnswerCacheEntry = { ...entry, version: CACHE_ENTRY_VERSION, createdAt: now, lastAccessAt: now };
+   await fs.mkdir(options.dir, { recursive: true });
+   const filePath = entryPath(options, entry.key);
+   const tmpPath = `${filePath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+   await fs.writeFile(tmpPath, JSON.stringify(stored), "utf8");
+   await fs.rename(tmpPath, filePath);
+   await pruneAnswerCache(options, stored);
+   return stored;
+}
+
+export async function pruneAnswerCache(options: AnswerCacheOptions, latest?: AnswerCacheEntry): Promise<void> {
+   const now = options.now?.() ?? Date.now();
+   let files: string[];
+   try {
+      files = (await fs.readdir(options.dir)).filter((file) => file.endsWith(".json"));
+   } catch {
+      return;
+   }
+
+   const live: Array<{ filePath: string; entry: AnswerCacheEntry; size: number }> = [];
+   for (const file of files) {
+      const filePath = path.join(options.dir, file);
+      const entry = await readEntry(filePath);
+      const stale =
+         !entry ||
+         now - entry.createdAt > options.ttlMs ||
+         (latest !== undefined && entry.clonePath === latest.clonePath && entry.commit !== latest.commit);
+      if (stale) {
+         await removeEntry(filePath);
+         continue;
+      }
+      const size = await fs.stat(filePath).then((stat) => stat.size, () => 0);
+      live.push({ filePath, entry, size });
+   }
+
+   live.sort((a, b) => b.entry.lastAccessAt - a.entry.lastAccessAt);
+   let totalBytes = 0;
+   for (const [index, item] of live.entries()) {
+      totalBytes += item.size;
+      if (index >= options.maxEntries || totalBytes > options.maxBytes) {
+         await removeEntry(item.filePath);
+      }
+   }
+}
@@ -0,0 +1,213 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { runGit } from "./git";
+import type { ReplicantStructuredAnswer } from "./structured";
+import { isPathInScope, resolveScope } from "./subproc";
+
+export type CitationStatus = "ok" | "missing_file" | "out_of_scope" | "out_of_range" | "unknown_commit" | "unverified";
+
+type CommitLineCount = number | "missing" | "unknown_commit" | undefined;
+
+export interface CitationRoot {
+   repo: string;
+   clonePath: string;
+   referencePath?: string;
+   gitPath?: string;
+}
+
+export interface ExtractedCitation {
+   raw: string;
+   repo?: string;
+   commit?: string;
+   path: string;
+   startLine: number;
+   endLine: number;
+}
+
+export interface CitationCheck extends ExtractedCitation {
+   status: CitationStatus;
+   lineCount?: number;
+}
+
+export interface CitationReport {
+   total: number;
+   valid: number;
+   invalid: number;
+   unverified: number;
+   checks: CitationCheck[];
+}
+
+const CITATION_PATTERN =
+   /(?<![\w@./-])(?:((?:[\w-]+(?:\.[\w-]+)+:)?[\w.-]+(?:\/[\w.-]+)+(?:@[\w.+-]+)?):)?(?:([0-9a-f]{7,64}):)?((?:\/|\.{1,2}\/)?(?:[\w@.+-]+\/)*[\w@+-][\w@.+-]*\.[A-Za-z0-9]+)(?::(\d+)(?:-(\d+))?|#L(\d+)(?:-L?(\d+))?)/g;
+
+export function extractCitations(text: string, knownRepos: string[] = []): ExtractedCitation[] {
+   const citations: ExtractedCitation[] = [];
+   const seen = new Set<string>();
+   for (const match of text.matchAll(CITATION_PATTERN)) {
+      const [raw, repoPrefix, commit, citedPath, colonStart, colonEnd, hashStart, hashEnd] = match;
+      const startLine = Number(colonStart ?? hashStart);
+      const endLine = Number(colonEnd ?? hashEnd ?? startLine);
+      if (!citedPath || !Number.isInteger(startLine) || startLine < 1) continue;
+      if (/^https?$/i.test(citedPath) || citedPath.includes("://")) continue;
+
+      const repo = repoPrefix && knownRepos.includes(repoPrefix) ? repoPrefix : undefined;
+      const normalizedRaw = repoPrefix && !repo ? raw.slice(repoPrefix.length + 1) : raw;
+      if (seen.has(normalizedRaw)) continue;
+      seen.add(normalizedRaw);
+      citations.push({ raw: normalizedRaw, repo, commit, path: citedPath, startLine, endLine: Math.max(startLine, endLine) });
+   }
+   return citations;
+}
+
+export function citationsFromStructured(value: ReplicantStructuredAnswer): ExtractedCitation[] {
+   return value.citations.map((citation) => ({
+      raw: `${citation.repo ? `${citation.repo}:` : ""}${citation.commit ? `${citation.commit}:` : ""}${citation.path}#L${citation.startLine}-L${citation.endLine}`,
+      repo: citation.repo,
+      commit: citation.commit,
+      path: citation.path,
+      startLine: citation.startLine,
+      endLine: citation.endLine,
+   }));
+}
+
+async function countLines(filePath: string, cache: Map<string, number | undefined>): Promise<number | undefined> {
+   if (cache.has(filePath)) return cache.get(filePath);
+   let lineCount: number | undefined;
+   try {
+      const stat = await fs.stat(filePath);
+      if (stat.isFile()) {
+         const content = await fs.readFile(filePath, "utf8");
+         lineCount = countContentLines(content);
+      }
+   } catch {
+      lineCount = undefined;
+   }
+   cache.set(filePath, lineCount);
+   return lineCount;
+}
+
+function countContentLines(content: string): number {
+   return content.length === 0 ? 0 : content.split("\n").length - (content.endsWith("\n") ? 1 : 0);
+}
+
+async function countCommitLines(
+   pi: ExtensionAPI,
+   root: CitationRoot,
+   citation: ExtractedCitation & { commit: string },
+   cache: Map<string, CommitLineCount>,
+): Promise<CommitLineCount> {
+   const gitPath = root.gitPath ?? root.clonePath;
+   const relative = path.relative(root.clonePath, path.resolve(root.clonePath, citation.path)).replace(/\\/g, "/");
+   const object = `${citation.commit}:./${relative}`;
+   const key = `${gitPath}\0${object}`;
+   if (cache.has(key)) return cache.get(key);
+
+   let lineCount: CommitLineCount;
+   if ((await runGit(pi, gitPath, ["cat-file", "-e", object])).code === 0) {
+      const blob = await runGit(pi, gitPath, ["cat-file", "blob", object]);
+      lineCount = blob.code === 0 ? countContentLines(blob.stdout) : undefined;
+   } else if ((await runGit(pi, gitPath, ["cat-file", "-e", `${citation.commit}^{commit}`])).code === 0) {
+      lineCount = "missing";
+   } else if ((await runGit(pi, gitPath, ["rev-parse", "--git-dir"])).code === 0) {
+      lineCount = "unknown_commit";
+   }
+   cache.set(key, lineCount);
+   return lineCount;
+}
+
+function rootForCitation(citation: ExtractedCitation, roots: CitationRoot[]): CitationRoot {
+   return roots.find((root) => root.repo === citation.repo) ?? roots[0];
+}
+
+export async function verifyCitations(
+   citations: ExtractedCitation[],
+   roots: CitationRoot[],
+   pi?: ExtensionAPI,
+): Promise<CitationReport> {
+   const lineCounts = new Map<string, number | undefined>();
+   const commitLineCounts = new Map<string, CommitLineCount>();
+   const checks: CitationCheck[] = [];
+
+   for (const citation of citations) {
+      const root = rootForCitation(citation, roots);
+      const scope = resolveScope(root.clonePath, {
+         allowedRoots: [root.clonePath],
+         allowedFiles: root.referencePath ? [root.referencePath] : [],
+      });
+      if (!isPathInScope(citation.path, scope)) {
+         checks.push({ ...citation, status: "out_of_scope" });
+         continue;
+      }
+      let lineCount: CommitLineCount;
+      if (citation.commit) {
+         lineCount = pi ? await countCommitLines(pi, root, { ...citation, commit: citation.commit }, commitLineCounts) : undefined;
+         if (lineCount === undefined) {
+            checks.push({ ...citation, status: "unverified" });
+            continue;
+         }
+         if (lineCount === "unknown_commit") {
+            checks.push({ ...citation, status: "unknown_commit" });
+            continue;
+         }
+      } else {
+         lineCount = await countLines(path.resolve(root.clonePath, citation.path), lineCounts);
+      }
+      if (lineCount === undefined || lineCount === "missing") {
+         checks.push({ ...citation, status: "missing_file" });
+         continue;
+      }
+
+      checks.push({
+         ...citation,
+         lineCount,
+         status: citation.endLine <= lineCount ? "ok" : "out_of_range",
+      });
+   }
+
+   const valid = checks.filter((check) => check.status === "ok").length;
+   const unverified = checks.filter((check) => check.status === "unverified").length;
+   return { total: checks.length, valid, invalid: checks.length - valid - unverified, unverified, checks };
+}
+
+export function hasTooManyInvalidCitations(report: CitationReport, maxInvalidRatio: number): boolean {
+   return report.invalid > 0 && report.invalid / report.total > maxInvalidRatio;
+}
+
+export function describeCitationCheck(check: CitationCheck): string {
+   if (check.status === "missing_file") return "file not found";
+   if (check.status === "out_of_scope") return "outside the explored repository";
+   if (check.status === "out_of_range") return `file has ${check.lineCount} lines`;
+   if (check.status === "unknown_commit") return "commit not found in the repository";
+   if (check.status === "unverified") return "commit could not be checked";
+   return "ok";
+}
+
+export function buildCitationRepairPrompt(report: CitationReport): string {
+   return [
+      `${report.invalid} of ${report.total} citations in your answer do not match the repository:`,
+      ...report.checks
+         .filter((check) => check.status !== "ok" && check.status !== "unverified")
+         .map((check) => `- ${check.raw}: ${describeCitationCheck(check)}`),
+      "Re-check these references with your tools, then reply again with the full corrected answer in the same format.",
+      "Drop claims you cannot back with an existing file and line range.",
+   ].join("\n");
+}
+
+export function formatCitationNote(report: CitationReport): string | undefined {
+   if (report.invalid === 0) return undefined;
+   const invalid = report.checks
+      .filter((check) => check.status !== "ok" && check.status !== "unverified")
+      .map((check) => `${check.raw} (${describeCitationCheck(check)})`);
+   return `[replicant: ${report.invalid} of ${report.total} citations could not be verified: ${invalid.join(", ")}]`;
+}
+
+export function annotateInvalidCitations(text: string, report: CitationReport, marker: (check: CitationCheck) => string): string {
+   let annotated = text;
+   for (const check of report.checks) {
+      if (check.status === "ok") continue;
+      const escaped = check.raw.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      annotated = annotated.replace(new RegExp(`${escaped}(?![\\w-])`), (match) => `${match}${marker(check)}`);
+   }
+   return annotated;
+}
@@ -0,0 +1,38 @@
+import { type Component, truncateToWidth, visibleWidth } from "@mariozechner/pi-tui";
+
+const COLUMN_GAP = 2;
+const MIN_COLUMN_WIDTH = 24;
+
+export class Columns implements Component {
+   constructor(private readonly columns: string[][]) { }
+
+   render(width: number): string[] {
+      const count = this.columns.length;
+      if (count === 0) return [];
+
+      const columnWidth = Math.floor((width - COLUMN_GAP * (count - 1)) / count);
+      if (columnWidth < MIN_COLUMN_WIDTH) {
+         const stacked: string[] = [];
+         this.columns.forEach((column, index) => {
+            if (index > 0) stacked.push("");
+            for (const line of column) stacked.push(truncateToWidth(line, width));
+         });
+         return stacked;
+      }
+
+      const height = Math.max(...this.columns.map((column) => column.length));
+      const gap = " ".repeat(COLUMN_GAP);
+      const lines: string[] = [];
+      for (let row = 0; row < height; row++) {
+         const cells = this.columns.map((column, index) => {
+            const cell = truncateToWidth(column[row] ?? "", columnWidth);
+            if (index === count - 1) return cell;
+            return cell + " ".repeat(Math.max(0, columnWidth - visibleWidth(cell)));
+         });
+         lines.push(cells.join(gap).trimEnd());
+      }
+      return lines;
+   }
+
+   invalidate(): void { }
+}
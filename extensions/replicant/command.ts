@@ -0,0 +1,231 @@
+import type {
+   AgentToolResult,
+   ExtensionAPI,
+   ExtensionCommandContext,
+   Theme,
+   ToolDefinition,
+} from "@mariozechner/pi-coding-agent";
+import { Key, matchesKey, type AutocompleteItem, type Component, type TUI } from "@mariozechner/pi-tui";
+import { loadReplicantConfig } from "./config";
+import { parseHostedRepoToken } from "./hints";
+import { searchMappedRepos, searchReposByTerms, taskSearchTerms } from "./offworld";
+import { createRepoResolvers } from "./resolvers";
+import type { ReplicantParams, ReplicantParamsSchema } from "./schemas";
+import { defaultTranscriptDir, formatTranscript, listTranscripts, readTranscript, type TranscriptSummary } from "./transcripts";
+
+const WIDGET_KEY = "replicant";
+const MESSAGE_TYPE = "replicant";
+const MAX_COMPLETION_TERMS = 50;
+const MAX_COMPLETIONS = 20;
+const MAX_LISTED_TRANSCRIPTS = 30;
+
+const AUTO_DETECT_OPTION = "Auto-detect from task";
+const ENTER_REPO_OPTION = "Enter owner/repo...";
+const INSERT_OPTION = "Insert findings into the conversation";
+const INSERT_AND_CONTINUE_OPTION = "Insert findings and let the agent continue";
+const DISCARD_OPTION = "Discard";
+
+type ReplicantTool<TDetails> = ToolDefinition<typeof ReplicantParamsSchema, TDetails>;
+
+interface ReplicantMessageDetails<TDetails> {
+   text: string;
+   result: TDetails;
+}
+
+export function parseReplicantCommandArgs(args: string): { repo?: string; task?: string } {
+   const trimmed = args.trim();
+   if (!trimmed) return {};
+   const [first, ...rest] = trimmed.split(/\s+/);
+   if (/^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+(?:@[A-Za-z0-9_./+-]+)?$/.test(first) || parseHostedRepoToken(first)) {
+      const task = rest.join(" ").trim();
+      return { repo: first, task: task || undefined };
+   }
+   return { task: trimmed };
+}
+
+function resultText(result: AgentToolResult<unknown>): string {
+   const content = result.content[0];
+   return content?.type === "text" ? content.text : "(no output)";
+}
+
+async function pickRepo(pi: ExtensionAPI, ctx: ExtensionCommandContext, task: string): Promise<string | null | undefined> {
+   const config = await loadReplicantConfig({ cwd: ctx.cwd });
+   const resolvers = createRepoResolvers(config, ctx.cwd);
+   const candidates = await searchReposByTerms(resolvers, taskSearchTerms(task), { pi, ctx }).catch(() => []);
+   const labels = candidates.slice(0, 8).map((candidate) => `${candidate.repo} (score ${candidate.score})`);
+   const picked = await ctx.ui.select("Repository for replicant", [AUTO_DETECT_OPTION, ...labels, ENTER_REPO_OPTION]);
+   if (!picked) return null;
+   if (picked === AUTO_DETECT_OPTION) return undefined;
+   if (picked === ENTER_REPO_OPTION) {
+      const entered = await ctx.ui.input("Repository", "owner/repo or owner/repo@ref");
+      return entered?.trim() || null;
+   }
+   return candidates[labels.indexOf(picked)]?.repo ?? null;
+}
+
+export function registerReplicantCommand<TDetails>(pi: ExtensionAPI, tool: ReplicantTool<TDetails>) {
+   const completions = new Map<string, Array<{ repo: string; score: number }>>();
+
+   const renderResult = (result: AgentToolResult<TDetails>, expanded: boolean, isPartial: boolean, theme: Theme): Component =>
+      tool.renderResult!(result, { expanded, isPartial }, theme);
+
+   pi.registerMessageRenderer<ReplicantMessageDetails<TDetails>>(MESSAGE_TYPE, (message, { expanded }, theme) => {
+      if (!message.details) return undefined;
+      return renderResult(
+         { content: [{ type: "text", text: message.details.text }], details: message.details.result },
+         expanded,
+         false,
+         theme,
+      );
+   });
+
+   pi.registerCommand("replicant", {
+      description: "Ask the replicant subagent about an external repo: /replicant [owner/repo] [task]",
+      getArgumentCompletions: (argumentPrefix) => {
+         if (/\s/.test(argumentPrefix)) return null;
+         const term = argumentPrefix.trim().toLowerCase();
+         if (term.length >= 2 && !completions.has(term)) {
+            if (completions.size >= MAX_COMPLETION_TERMS) completions.delete(completions.keys().next().value!);
+            completions.set(term, []);
+            void searchMappedRepos(pi, term)
+               .then((matches) => completions.set(term, matches))
+               .catch(() => undefined);
+         }
+
+         const items = new Map<string, AutocompleteItem>();
+         for (const matches of completions.values()) {
+            for (const match of matches) {
+               if (!match.repo.toLowerCase().includes(term) || items.has(match.repo)) continue;
+               items.set(match.repo, { value: match.repo, label: match.repo, description: `score ${match.score}` });
+            }
+         }
+         return items.size > 0 ? [...items.values()].slice(0, MAX_COMPLETIONS) : null;
+      },
+      handler: async (args, ctx) => {
+         const parsed = parseReplicantCommandArgs(args);
+         let task = parsed.task;
+         let repo = parsed.repo;
+
+         if (!task) {
+            if (!ctx.hasUI) {
+               ctx.ui.notify("Usage: /replicant [owner/repo] <task>", "warning");
+               return;
+            }
+            task = (await ctx.ui.input("Replicant task", "What should replicant investigate?"))?.trim();
+            if (!task) return;
+         }
+
+         if (!repo && ctx.hasUI) {
+            const picked = await pickRepo(pi, ctx, task);
+            if (picked === null) return;
+            repo = picked;
+         }
+
+         const params: ReplicantParams = repo ? { task, repo } : { task };
+         const controller = new AbortController();
+         let widgetTui: TUI | undefined;
+         let latest: AgentToolResult<TDetails> | undefined;
+         let stopListening: (() => void) | undefined;
+         if (ctx.hasUI) {
+            stopListening = ctx.ui.onTerminalInput((data) => {
+               if (!matchesKey(data, Key.escape)) return undefined;
+               controller.abort();
+               return { consume: true };
+            });
+            ctx.ui.setWidget(WIDGET_KEY, (tui, theme) => {
+               widgetTui = tui;
+               return {
+                  render: (width) =>
+                     latest ? renderResult(latest, false, true, theme).render(width) : [theme.fg("dim", "replicant: starting... (esc to cancel)")],
+                  invalidate: () => undefined,
+               };
+            });
+         }
+
+         try {
+            const result = await tool.execute(
+               `replicant-command-${Date.now()}`,
+               params,
+               controller.signal,
+               (partial) => {
+                  latest = partial;
+                  widgetTui?.requestRender();
+               },
+               ctx,
+            );
+            latest = result;
+            widgetTui?.requestRender();
+            stopListening?.();
+
+            const text = resultText(result);
+            if (controller.signal.aborted) {
+               ctx.ui.notify("replicant canceled", "info");
+               return;
+            }
+            if ((result as { isError?: boolean }).isError) {
+               ctx.ui.notify(`replicant failed: ${text}`, "error");
+               return;
+            }
+
+            const choice = ctx.hasUI
+               ? await ctx.ui.select("Replicant findings", [INSERT_OPTION, INSERT_AND_CONTINUE_OPTION, DISCARD_OPTION])
+               : INSERT_OPTION;
+            if (choice !== INSERT_OPTION && choice !== INSERT_AND_CONTINUE_OPTION) return;
+
+            await ctx.waitForIdle();
+            pi.sendMessage<ReplicantMessageDetails<TDetails>>(
+               {
+                  customType: MESSAGE_TYPE,
+                  content: `Replicant findings${repo ? ` for ${repo}` : ""}.\nTask: ${task}\n\n${text}`,
+                  display: true,
+                  details: { text, result: result.details },
+               },
+               { triggerTurn: choice === INSERT_AND_CONTINUE_OPTION },
+            );
+         } finally {
+            stopListening?.();
+            if (ctx.hasUI) ctx.ui.setWidget(WIDGET_KEY, undefined);
+         }
+      },
+   });
+}
+
+function transcriptLabel(summary: TranscriptSummary): string {
+   const when = new Date(summary.createdAt).toISOString().slice(0, 19).replace("T", " ");
+   const task = typeof summary.meta?.task === "string" ? summary.meta.task.replace(/\s+/g, " ").slice(0, 60) : "";
+   return `${when}  ${summary.label}${task ? `  ${task}` : ""}`;
+}
+
+export function registerTranscriptsCommand(pi: ExtensionAPI) {
+   pi.registerCommand("replicant-transcripts", {
+      description: "Browse recent replicant subagent transcripts: /replicant-transcripts [filter]",
+      handler: async (args, ctx) => {
+         const config = await loadReplicantConfig({ cwd: ctx.cwd });
+         const dir = config.transcripts.dir ?? defaultTranscriptDir();
+         const filter = args.trim().toLowerCase();
+         const transcripts = (await listTranscripts(dir, filter ? Number.POSITIVE_INFINITY : MAX_LISTED_TRANSCRIPTS))
+            .filter((summary) => !filter || transcriptLabel(summary).toLowerCase().includes(filter))
+            .slice(0, MAX_LISTED_TRANSCRIPTS);
+
+         if (transcripts.length === 0) {
+            ctx.ui.notify(
+               `No replicant transcripts in ${dir}. Pass transcript: true or set transcripts.enabled to record them.`,
+               "info",
+            );
+            return;
+         }
+
+         if (!ctx.hasUI) {
+            ctx.ui.notify(transcripts.map((summary) => `${transcriptLabel(summary)}\n  ${summary.path}`).join("\n"), "info");
+            return;
+         }
+
+         const labels = transcripts.map(transcriptLabel);
+         const picked = await ctx.ui.select("Replicant transcripts", labels);
+         const summary = picked ? transcripts[labels.indexOf(picked)] : undefined;
+         if (!summary) return;
+
+         await ctx.ui.editor(summary.path, formatTranscript(await readTranscript(summary.path)));
+      },
+   });
+}
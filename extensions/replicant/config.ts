@@ -0,0 +1,410 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { getAgentDir } from "@mariozechner/pi-coding-agent";
+import { Type, type Static } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { DEFAULT_SENSITIVE_ALLOW_GLOBS, DEFAULT_SENSITIVE_DENY_GLOBS } from "./sensitive";
+
+export const ReplicantConfigSchema = Type.Object(
+   {
+      budgets: Type.Optional(
+         Type.Object(
+            {
+               defaultMaxTurns: Type.Optional(Type.Integer({ minimum: 2 })),
+               defaultMaxToolCalls: Type.Optional(Type.Integer({ minimum: 1 })),
+               maxTurnsCap: Type.Optional(Type.Integer({ minimum: 2 })),
+               maxToolCallsCap: Type.Optional(Type.Integer({ minimum: 1 })),
+               softTimeBudgetSeconds: Type.Optional(Type.Integer({ minimum: 0 })),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      cache: Type.Optional(
+         Type.Object(
+            {
+               enabled: Type.Optional(Type.Boolean()),
+               dir: Type.Optional(Type.String({ minLength: 1 })),
+               ttlHours: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+               maxEntries: Type.Optional(Type.Integer({ minimum: 1 })),
+               maxBytes: Type.Optional(Type.Integer({ minimum: 1024 })),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      concurrency: Type.Optional(
+         Type.Object(
+            {
+               maxSubagents: Type.Optional(Type.Integer({ minimum: 1 })),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      local: Type.Optional(
+         Type.Object(
+            {
+               requireGit: Type.Optional(Type.Boolean()),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      offworld: Type.Optional(
+         Type.Object(
+            {
+               versionTimeoutSeconds: Type.Optional(Type.Integer({ minimum: 1 })),
+               mapTimeoutSeconds: Type.Optional(Type.Integer({ minimum: 1 })),
+               pullTimeoutSeconds: Type.Optional(Type.Integer({ minimum: 1 })),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      resolvers: Type.Optional(
+         Type.Object(
+            {
+               order: Type.Optional(
+                  Type.Array(Type.Union([Type.Literal("offworld"), Type.Literal("mirror")]), { minItems: 1, uniqueItems: true }),
+               ),
+               mirrorRoots: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+               mirrorLayout: Type.Optional(Type.String({ pattern: "\\{repo\\}" })),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      selection: Type.Optional(
+         Type.Object(
+            {
+               autoSelect: Type.Optional(Type.Boolean()),
+               minScoreMargin: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+               minScoreRatio: Type.Optional(Type.Number({ minimum: 1 })),
+               matchTaskName: Type.Optional(Type.Boolean()),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      freshness: Type.Optional(
+         Type.Object(
+            {
+               enabled: Type.Optional(Type.Boolean()),
+               maxFetchAgeHours: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+               maxBehind: Type.Optional(Type.Integer({ minimum: 0 })),
+               maxHeadAgeDays: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+               onStale: Type.Optional(Type.Union([Type.Literal("confirm"), Type.Literal("refresh"), Type.Literal("report")])),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      refs: Type.Optional(
+         Type.Object(
+            {
+               dir: Type.Optional(Type.String({ minLength: 1 })),
+               maxExports: Type.Optional(Type.Integer({ minimum: 1 })),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      sessions: Type.Optional(
+         Type.Object(
+            {
+               idleMinutes: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+               maxSessions: Type.Optional(Type.Integer({ minimum: 1 })),
+               budget: Type.Optional(Type.Union([Type.Literal("refresh"), Type.Literal("shared")])),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      citations: Type.Optional(
+         Type.Object(
+            {
+               verify: Type.Optional(Type.Boolean()),
+               onInvalid: Type.Optional(Type.Union([Type.Literal("report"), Type.Literal("reprompt"), Type.Literal("fail")])),
+               maxInvalidRatio: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      transcripts: Type.Optional(
+         Type.Object(
+            {
+               enabled: Type.Optional(Type.Boolean()),
+               dir: Type.Optional(Type.String({ minLength: 1 })),
+               maxResultBytes: Type.Optional(Type.Integer({ minimum: 256 })),
+               maxFiles: Type.Optional(Type.Integer({ minimum: 1 })),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      usage: Type.Optional(
+         Type.Object(
+            {
+               sessionTotals: Type.Optional(Type.Boolean()),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+      sensitive: Type.Optional(
+         Type.Object(
+            {
+               enabled: Type.Optional(Type.Boolean()),
+               denyGlobs: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+               extraDenyGlobs: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+               allowGlobs: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+               blockSecrets: Type.Optional(Type.Boolean()),
+               blockBinary: Type.Optional(Type.Boolean()),
+               blockMinified: Type.Optional(Type.Boolean()),
+               maxBinaryBytes: Type.Optional(Type.Integer({ minimum: 0 })),
+            },
+            { additionalProperties: false },
+         ),
+      ),
+   },
+   { additionalProperties: false },
+);
+
+export type ReplicantConfigFile = Static<typeof ReplicantConfigSchema>;
+
+export interface ReplicantConfig {
+   budgets: {
+      defaultMaxTurns: number;
+      defaultMaxToolCalls: number;
+      maxTurnsCap: number;
+      maxToolCallsCap: number;
+      softTimeBudgetSeconds: number;
+   };
+   cache: {
+      enabled: boolean;
+      dir?: string;
+      ttlHours: number;
+      maxEntries: number;
+      maxBytes: number;
+   };
+   concurrency: {
+      maxSubagents: number;
+   };
+   local: {
+      requireGit: boolean;
+   };
+   offworld: {
+      versionTimeoutSeconds: number;
+      mapTimeoutSeconds: number;
+      pullTimeoutSeconds: number;
+   };
+   resolvers: {
+      order: Array<"offworld" | "mirror">;
+      mirrorRoots: string[];
+      mirrorLayout: string;
+   };
+   selection: {
+      autoSelect: boolean;
+      minScoreMargin: number;
+      minScoreRatio: number;
+      matchTaskName: boolean;
+   };
+   freshness: {
+      enabled: boolean;
+      maxFetchAgeHours: number;
+      maxBehind: number;
+      maxHeadAgeDays?: number;
+      onStale: "confirm" | "refresh" | "report";
+   };
+   refs: {
+      dir?: string;
+      maxExports: number;
+   };
+   sessions: {
+      idleMinutes: number;
+      maxSessions: number;
+      budget: "refresh" | "shared";
+   };
+   citations: {
+      verify: boolean;
+      onInvalid: "report" | "reprompt" | "fail";
+      maxInvalidRatio: number;
+   };
+   transcripts: {
+      enabled: boolean;
+      dir?: string;
+      maxResultBytes: number;
+      maxFiles: number;
+   };
+   usage: {
+      sessionTotals: boolean;
+   };
+   sensitive: {
+      enabled: boolean;
+      denyGlobs: string[];
+      extraDenyGlobs: string[];
+      allowGlobs: string[];
+      blockSecrets: boolean;
+      blockBinary: boolean;
+      blockMinified: boolean;
+      maxBinaryBytes: number;
+   };
+}
+
+export const DEFAULT_CONFIG: ReplicantConfig = {
+   budgets: {
+      defaultMaxTurns: 10,
+      defaultMaxToolCalls: 60,
+      maxTurnsCap: 30,
+      maxToolCallsCap: 200,
+      softTimeBudgetSeconds: 0,
+   },
+   cache: {
+      enabled: true,
+      ttlHours: 7 * 24,
+      maxEntries: 200,
+      maxBytes: 50 * 1024 * 1024,
+   },
+   concurrency: {
+      maxSubagents: 3,
+   },
+   local: {
+      requireGit: false,
+   },
+   offworld: {
+      versionTimeoutSeconds: 30,
+      mapTimeoutSeconds: 60,
+      pullTimeoutSeconds: 20 * 60,
+   },
+   resolvers: {
+      order: ["offworld"],
+      mirrorRoots: [],
+      mirrorLayout: "{owner}/{repo}",
+   },
+   selection: {
+      autoSelect: true,
+      minScoreMargin: 0.3,
+      minScoreRatio: 2,
+      matchTaskName: true,
+   },
+   freshness: {
+      enabled: true,
+      maxFetchAgeHours: 7 * 24,
+      maxBehind: 0,
+      onStale: "confirm",
+   },
+   refs: {
+      maxExports: 20,
+   },
+   sessions: {
+      idleMinutes: 15,
+      maxSessions: 4,
+      budget: "refresh",
+   },
+   citations: {
+      verify: true,
+      onInvalid: "report",
+      maxInvalidRatio: 0.25,
+   },
+   transcripts: {
+      enabled: false,
+      maxResultBytes: 16 * 1024,
+      maxFiles: 100,
+   },
+   usage: {
+      sessionTotals: true,
+   },
+   sensitive: {
+      enabled: true,
+      denyGlobs: DEFAULT_SENSITIVE_DENY_GLOBS,
+      extraDenyGlobs: [],
+      allowGlobs: DEFAULT_SENSITIVE_ALLOW_GLOBS,
+      blockSecrets: true,
+      blockBinary: true,
+      blockMinified: true,
+      maxBinaryBytes: 256 * 1024,
+   },
+};
+
+export interface LoadReplicantConfigOptions {
+   cwd: string;
+   userPath?: string;
+   projectPath?: string;
+}
+
+export class ReplicantConfigError extends Error {
+   constructor(
+      message: string,
+      readonly filePath: string,
+      readonly remediation?: string,
+   ) {
+      super(message);
+   }
+}
+
+export function userConfigPath(): string {
+   return path.join(getAgentDir(), "replicant", "config.json");
+}
+
+export function projectConfigPath(cwd: string): string {
+   return path.join(cwd, ".pi", "replicant", "config.json");
+}
+
+async function readConfigFile(filePath: string): Promise<ReplicantConfigFile | undefined> {
+   let raw: string;
+   try {
+      raw = await fs.readFile(filePath, "utf8");
+   } catch {
+      return undefined;
+   }
+
+   let parsed: unknown;
+   try {
+      parsed = JSON.parse(raw);
+   } catch (error) {
+      throw new ReplicantConfigError(
+         `Invalid replicant config ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+         filePath,
+         "Fix the JSON syntax or remove the file.",
+      );
+   }
+
+   if (!Value.Check(ReplicantConfigSchema, parsed)) {
+      const issues = [...Value.Errors(ReplicantConfigSchema, parsed)]
+         .slice(0, 5)
+         .map((issue) => `${issue.path || "/"} ${issue.message}`);
+      throw new ReplicantConfigError(
+         `Invalid replicant config ${filePath}: ${issues.join("; ")}`,
+         filePath,
+         "Fix the listed fields or remove the file.",
+      );
+   }
+
+   return parsed;
+}
+
+function mergeConfig(base: ReplicantConfig, override?: ReplicantConfigFile): ReplicantConfig {
+   if (!override) return base;
+   return {
+      budgets: { ...base.budgets, ...override.budgets },
+      cache: { ...base.cache, ...override.cache },
+      concurrency: { ...base.concurrency, ...override.concurrency },
+      local: { ...base.local, ...override.local },
+      offworld: { ...base.offworld, ...override.offworld },
+      resolvers: { ...base.resolvers, ...override.resolvers },
+      selection: { ...base.selection, ...override.selection },
+      freshness: { ...base.freshness, ...override.freshness },
+      refs: { ...base.refs, ...override.refs },
+      sessions: { ...base.sessions, ...override.sessions },
+      citations: { ...base.citations, ...override.citations },
+      transcripts: { ...base.transcripts, ...override.transcripts },
+      usage: { ...base.usage, ...override.usage },
+      sensitive: { ...base.sensitive, ...override.sensitive },
+   };
+}
+
+export async function loadReplicantConfig(options: LoadReplicantConfigOptions): Promise<ReplicantConfig> {
+   const userPath = options.userPath ?? userConfigPath();
+   const projectPath = options.projectPath ?? projectConfigPath(options.cwd);
+   const config = mergeConfig(mergeConfig(DEFAULT_CONFIG, await readConfigFile(userPath)), await readConfigFile(projectPath));
+
+   const { budgets } = config;
+   if (budgets.defaultMaxTurns > budgets.maxTurnsCap || budgets.defaultMaxToolCalls > budgets.maxToolCallsCap) {
+      throw new ReplicantConfigError(
+         `Invalid replicant config: default budgets (${budgets.defaultMaxTurns} turns, ${budgets.defaultMaxToolCalls} tool calls) exceed the caps (${budgets.maxTurnsCap} turns, ${budgets.maxToolCallsCap} tool calls).`,
+         projectPath,
+         "Lower the defaults or raise maxTurnsCap/maxToolCallsCap.",
+      );
+   }
+
+   return config;
+}
@@ -0,0 +1,63 @@
+import { spawn } from "node:child_process";
+
+const FORCE_KILL_DELAY_MS = 5000;
+
+export interface StreamingExecOptions {
+   cwd?: string;
+   signal?: AbortSignal;
+   timeout?: number;
+   onOutput?: (chunk: string, stream: "stdout" | "stderr") => void;
+}
+
+export interface StreamingExecResult {
+   stdout: string;
+   stderr: string;
+   code: number;
+   killed: boolean;
+}
+
+export type StreamingExec = (command: string, args: string[], options: StreamingExecOptions) => Promise<StreamingExecResult>;
+
+export function execStreaming(command: string, args: string[], options: StreamingExecOptions): Promise<StreamingExecResult> {
+   return new Promise((resolve) => {
+      const child = spawn(command, args, { cwd: options.cwd, shell: false, stdio: ["ignore", "pipe", "pipe"] });
+      let stdout = "";
+      let stderr = "";
+      let killed = false;
+      let timer: NodeJS.Timeout | undefined;
+
+      const kill = () => {
+         if (killed) return;
+         killed = true;
+         child.kill("SIGTERM");
+         setTimeout(() => {
+            if (child.exitCode === null && child.signalCode === null) child.kill("SIGKILL");
+         }, FORCE_KILL_DELAY_MS).unref();
+      };
+      const finish = (code: number) => {
+         if (timer) clearTimeout(timer);
+         options.signal?.removeEventListener("abort", kill);
+         resolve({ stdout, stderr, code, killed });
+      };
+
+      if (options.signal?.aborted) kill();
+      else options.signal?.addEventListener("abort", kill, { once: true });
+      if (options.timeout && options.timeout > 0) timer = setTimeout(kill, options.timeout);
+
+      child.stdout.on("data", (data: Buffer) => {
+         const chunk = data.toString();
+         stdout += chunk;
+         options.onOutput?.(chunk, "stdout");
+      });
+      child.stderr.on("data", (data: Buffer) => {
+         const chunk = data.toString();
+         stderr += chunk;
+         options.onOutput?.(chunk, "stderr");
+      });
+      child.on("close", (code) => finish(code ?? 1));
+      child.on("error", (error) => {
+         stderr += error.message;
+         finish(1);
+      });
+   });
+}
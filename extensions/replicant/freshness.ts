@@ -0,0 +1,102 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { runGit } from "./git";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface FreshnessThresholds {
+   maxFetchAgeHours: number;
+   maxBehind: number;
+   maxHeadAgeDays?: number;
+}
+
+export interface CloneFreshness {
+   checkedAt: number;
+   lastFetchAt?: number;
+   headCommitAt?: number;
+   upstream?: string;
+   ahead?: number;
+   behind?: number;
+   stale: boolean;
+   reasons: string[];
+   refreshed?: boolean;
+   refreshError?: string;
+}
+
+async function mtimeOf(filePath: string): Promise<number | undefined> {
+   try {
+      return (await fs.stat(filePath)).mtimeMs;
+   } catch {
+      return undefined;
+   }
+}
+
+async function gitOutput(pi: ExtensionAPI, clonePath: string, args: string[], signal?: AbortSignal): Promise<string | undefined> {
+   const result = await runGit(pi, clonePath, args, signal);
+   const output = result.stdout.trim();
+   return result.code === 0 && output ? output : undefined;
+}
+
+export function formatAge(ms: number): string {
+   if (ms < HOUR_MS) return `${Math.max(0, Math.round(ms / 60_000))}m`;
+   if (ms < DAY_MS) return `${Math.round(ms / HOUR_MS)}h`;
+   return `${Math.round(ms / DAY_MS)}d`;
+}
+
+export async function readCloneFreshness(
+   pi: ExtensionAPI,
+   clonePath: string,
+   thresholds: FreshnessThresholds,
+   signal?: AbortSignal,
+   now = Date.now(),
+): Promise<CloneFreshness | undefined> {
+   const gitDir = await gitOutput(pi, clonePath, ["rev-parse", "--absolute-git-dir"], signal);
+   if (!gitDir) return undefined;
+
+   const lastFetchAt = (await mtimeOf(path.join(gitDir, "FETCH_HEAD"))) ?? (await mtimeOf(path.join(gitDir, "packed-refs")));
+   const headSeconds = Number(await gitOutput(pi, clonePath, ["log", "-1", "--format=%ct", "HEAD"], signal));
+   const headCommitAt = Number.isFinite(headSeconds) && headSeconds > 0 ? headSeconds * 1000 : undefined;
+
+   const upstream =
+      (await gitOutput(pi, clonePath, ["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{upstream}"], signal)) ??
+      (await gitOutput(pi, clonePath, ["rev-parse", "--abbrev-ref", "origin/HEAD"], signal));
+   let ahead: number | undefined;
+   let behind: number | undefined;
+   if (upstream) {
+      const counts = await gitOutput(pi, clonePath, ["rev-list", "--left-right", "--count", `HEAD...${upstream}`], signal);
+      const [left, right] = (counts ?? "").split(/\s+/).map(Number);
+      if (Number.isInteger(left) && Number.isInteger(right)) {
+         ahead = left;
+         behind = right;
+      }
+   }
+
+   const reasons: string[] = [];
+   if (lastFetchAt !== undefined && now - lastFetchAt > thresholds.maxFetchAgeHours * HOUR_MS) {
+      reasons.push(`last fetch ${formatAge(now - lastFetchAt)} ago (limit ${thresholds.maxFetchAgeHours}h)`);
+   }
+   if (behind !== undefined && behind > thresholds.maxBehind) {
+      reasons.push(`${behind} commits behind ${upstream} (limit ${thresholds.maxBehind})`);
+   }
+   if (thresholds.maxHeadAgeDays !== undefined && headCommitAt !== undefined && now - headCommitAt > thresholds.maxHeadAgeDays * DAY_MS) {
+      reasons.push(`HEAD commit is ${formatAge(now - headCommitAt)} old (limit ${thresholds.maxHeadAgeDays}d)`);
+   }
+
+   return { checkedAt: now, lastFetchAt, headCommitAt, upstream, ahead, behind, stale: reasons.length > 0, reasons };
+}
+
+export function formatFreshness(freshness: CloneFreshness): string {
+   const parts = [
+      freshness.lastFetchAt !== undefined ? `last fetch ${formatAge(freshness.checkedAt - freshness.lastFetchAt)} ago` : "never fetched",
+      freshness.headCommitAt !== undefined ? `HEAD commit ${formatAge(freshness.checkedAt - freshness.headCommitAt)} old` : undefined,
+      freshness.upstream && freshness.behind !== undefined
+         ? `${freshness.ahead ?? 0} ahead / ${freshness.behind} behind ${freshness.upstream}`
+         : "no upstream",
+      freshness.refreshed ? "refreshed" : undefined,
+      freshness.refreshError ? `refresh failed: ${freshness.refreshError}` : undefined,
+      freshness.stale ? `stale: ${freshness.reasons.join("; ")}` : undefined,
+   ];
+   return parts.filter(Boolean).join(", ");
+}
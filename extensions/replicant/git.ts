@@ -0,0 +1,30 @@
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+
+const GIT_TIMEOUT_MS = 30 * 1000;
+
+export type GitExecResult = {
+   stdout: string;
+   stderr: string;
+   code: number;
+   killed?: boolean;
+};
+
+export async function runGit(
+   pi: ExtensionAPI,
+   repoPath: string,
+   args: string[],
+   signal?: AbortSignal,
+   timeoutMs = GIT_TIMEOUT_MS,
+): Promise<GitExecResult> {
+   return (await pi.exec("git", ["-C", repoPath, ...args], {
+      signal,
+      timeout: timeoutMs,
+   })) as GitExecResult;
+}
+
+export async function readHeadCommit(pi: ExtensionAPI, repoPath: string, signal?: AbortSignal): Promise<string | undefined> {
+   const result = await runGit(pi, repoPath, ["rev-parse", "HEAD"], signal);
+   const commit = result.stdout.trim();
+   if (result.code !== 0 || !/^[0-9a-f]{40,64}$/.test(commit)) return undefined;
+   return commit;
+}
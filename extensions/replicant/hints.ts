@@ -0,0 +1,401 @@
+import type { RepoSearchMatch } from "./offworld";
+import { splitRepoRef } from "./schemas";
+
+export type RepoHintSource = "param" | "url" | "owner-repo" | "ecosystem" | "npm-scoped" | "npm" | "cue" | "search";
+
+export interface TaskHint {
+   kind: "repo" | "package";
+   value: string;
+   name: string;
+   source: RepoHintSource;
+   certainty: number;
+}
+
+export interface RepoHint {
+   value: string;
+   source: RepoHintSource;
+   confidence?: number;
+   repo?: string;
+}
+
+export interface PackageHintMatch extends RepoSearchMatch {
+   confidence: number;
+}
+
+export interface RepoLocator {
+   host: string;
+   path: string;
+   ref?: string;
+}
+
+export const DEFAULT_REPO_HOST = "github.com";
+
+export const MIN_PACKAGE_HINT_CONFIDENCE = 0.6;
+const MAX_PACKAGE_HINTS = 3;
+const MAX_SEARCH_TERMS = 5;
+
+const PATH_LIKE_OWNER_DENYLIST = new Set([
+   "src",
+   "docs",
+   "doc",
+   "packages",
+   "package",
+   "examples",
+   "example",
+   "test",
+   "tests",
+   "lib",
+   "dist",
+   "scripts",
+   "extensions",
+   "apps",
+   "app",
+   "server",
+   "client",
+]);
+
+const FILE_EXTENSION_PATTERN = /\.(?:ts|tsx|js|jsx|mjs|cjs|json|md|txt|yaml|yml|toml|rs|go|py|java|kt|swift|css|scss|html)$/i;
+
+const URL_ROUTE_SEGMENTS = new Set(["-", "tree", "blob", "src", "commit", "commits", "issues", "pulls", "pull", "merge_requests", "releases", "wiki"]);
+
+const HOSTED_REPO_PATTERN = /^(?:[a-z][a-z0-9+.-]*:\/\/|[^@\s/:]+@[^:\s/]+:|[a-z0-9-]+(?:\.[a-z0-9-]+)+[:/])/i;
+
+const ECOSYSTEM_PREFIXES: Record<string, string> = { npm: "npm", crate: "crate", crates: "crate", pypi: "pypi", gem: "gem" };
+
+const PACKAGE_CUE_WORDS = ["does", "do", "in", "with", "using", "use", "uses", "from"];
+
+const STOPWORDS = new Set([
+   "a",
+   "about",
+   "after",
+   "all",
+   "also",
+   "an",
+   "and",
+   "any",
+   "are",
+   "as",
+   "at",
+   "be",
+   "been",
+   "before",
+   "being",
+   "between",
+   "both",
+   "but",
+   "by",
+   "can",
+   "could",
+   "describe",
+   "did",
+   "do",
+   "does",
+   "doing",
+   "done",
+   "each",
+   "either",
+   "else",
+   "explain",
+   "find",
+   "for",
+   "from",
+   "general",
+   "get",
+   "gets",
+   "give",
+   "going",
+   "had",
+   "handle",
+   "handled",
+   "handles",
+   "has",
+   "have",
+   "here",
+   "how",
+   "i",
+   "if",
+   "implement",
+   "implementation",
+   "implemented",
+   "in",
+   "inspect",
+   "into",
+   "investigate",
+   "is",
+   "it",
+   "its",
+   "just",
+   "know",
+   "let",
+   "like",
+   "look",
+   "make",
+   "may",
+   "me",
+   "might",
+   "more",
+   "most",
+   "much",
+   "must",
+   "my",
+   "need",
+   "needs",
+   "no",
+   "not",
+   "now",
+   "of",
+   "on",
+   "once",
+   "only",
+   "or",
+   "order",
+   "other",
+   "our",
+   "out",
+   "over",
+   "own",
+   "part",
+   "parts",
+   "please",
+   "practice",
+   "project",
+   "question",
+   "repo",
+   "repository",
+   "same",
+   "see",
+   "should",
+   "show",
+   "so",
+   "some",
+   "such",
+   "summarise",
+   "summarize",
+   "tell",
+   "than",
+   "that",
+   "the",
+   "their",
+   "them",
+   "then",
+   "there",
+   "these",
+   "they",
+   "thing",
+   "things",
+   "this",
+   "those",
+   "through",
+   "to",
+   "too",
+   "trace",
+   "under",
+   "understand",
+   "up",
+   "us",
+   "use",
+   "used",
+   "uses",
+   "using",
+   "very",
+   "want",
+   "was",
+   "way",
+   "we",
+   "were",
+   "what",
+   "when",
+   "where",
+   "whether",
+   "which",
+   "while",
+   "who",
+   "why",
+   "will",
+   "with",
+   "within",
+   "without",
+   "work",
+   "working",
+   "works",
+   "would",
+   "you",
+   "your",
+]);
+
+const EXPLICIT_CERTAINTY = 1;
+const BACKTICK_CERTAINTY = 0.9;
+const CUE_CERTAINTY = 0.7;
+
+function cleanPackageName(raw: string): string {
+   const versionAt = raw.indexOf("@", 1);
+   return (versionAt === -1 ? raw : raw.slice(0, versionAt)).replace(/[.-]+$/, "").toLowerCase();
+}
+
+function isBarePackageName(name: string): boolean {
+   return /^[a-z0-9][a-z0-9._-]*$/.test(name) && name.length >= 2 && !STOPWORDS.has(name) && !FILE_EXTENSION_PATTERN.test(name);
+}
+
+function cleanRepoPath(host: string, rawPath: string): string | undefined {
+   const segments = rawPath.replace(/\.git\/?$/, "").split("/").filter(Boolean);
+   const route = segments.findIndex((segment, index) => index >= 2 && URL_ROUTE_SEGMENTS.has(segment));
+   const kept = host === DEFAULT_REPO_HOST ? segments.slice(0, 2) : route === -1 ? segments : segments.slice(0, route);
+   if (kept.length < 2 || kept.some((segment) => !/^[A-Za-z0-9_.-]+$/.test(segment) || segment === "." || segment === "..")) {
+      return undefined;
+   }
+   return kept.join("/").replace(/\.git$/, "");
+}
+
+export function parseRepoLocator(value: string): RepoLocator | undefined {
+   const { repo, ref } = splitRepoRef(value.trim());
+   const match =
+      repo.match(/^(?:https?|ssh|git):\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/(.+)$/i) ??
+      repo.match(/^[^@\s/:]+@([^:\s/]+):(.+)$/) ??
+      repo.match(/^([a-z0-9-]+(?:\.[a-z0-9-]+)+)[:/](.+)$/i);
+   const host = match ? match[1].toLowerCase() : DEFAULT_REPO_HOST;
+   if (FILE_EXTENSION_PATTERN.test(host)) return undefined;
+   const path = cleanRepoPath(host, match ? match[2] : repo);
+   return path ? { host, path, ref } : undefined;
+}
+
+export function parseHostedRepoToken(token: string): RepoLocator | undefined {
+   return HOSTED_REPO_PATTERN.test(token) ? parseRepoLocator(token) : undefined;
+}
+
+export function formatRepoSlug(locator: Pick<RepoLocator, "host" | "path">): string {
+   return locator.host === DEFAULT_REPO_HOST ? locator.path : `${locator.host}:${locator.path}`;
+}
+
+export function splitRepoHost(slug: string): Pick<RepoLocator, "host" | "path"> {
+   const colon = slug.indexOf(":");
+   return colon > 0 && !slug.slice(0, colon).includes("/")
+      ? { host: slug.slice(0, colon).toLowerCase(), path: slug.slice(colon + 1) }
+      : { host: DEFAULT_REPO_HOST, path: slug };
+}
+
+export function qualifyRepo(slug: string): string {
+   const { host, path } = splitRepoHost(slug);
+   return `${host}:${path}`;
+}
+
+export function normalizeRepoHint(repo?: string): string | undefined {
+   if (!repo) return undefined;
+   const trimmed = repo.trim();
+   if (!trimmed) return undefined;
+   const locator = parseRepoLocator(trimmed);
+   if (!locator) return trimmed;
+   const slug = formatRepoSlug(locator);
+   return locator.ref ? `${slug}@${locator.ref}` : slug;
+}
+
+function extractRepoHints(task: string): TaskHint[] {
+   for (const token of task.split(/\s+/)) {
+      const cleaned = token.replace(/^[`"'([<]+|[`"')\]>.,;:!?]+$/g, "");
+      const locator = parseHostedRepoToken(cleaned);
+      if (!locator) continue;
+      const slug = formatRepoSlug(locator);
+      return [{ kind: "repo", value: locator.ref ? `${slug}@${locator.ref}` : slug, name: slug, source: "url", certainty: 1 }];
+   }
+
+   const tokenPattern =
+      /(?:^|[\s`"'([])([A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+)(?:\.git)?(?:@([A-Za-z0-9_./+-]*[A-Za-z0-9_+-]))?(?=$|[\s`"')\].,;:!?])/g;
+   for (const match of task.matchAll(tokenPattern)) {
+      const candidate = match[1];
+      if (!candidate) continue;
+      const [owner, repo] = candidate.split("/");
+      if (!owner || !repo) continue;
+      if (PATH_LIKE_OWNER_DENYLIST.has(owner.toLowerCase())) continue;
+      if (FILE_EXTENSION_PATTERN.test(repo)) continue;
+      const value = match[2] ? `${candidate}@${match[2]}` : candidate;
+      return [{ kind: "repo", value, name: candidate, source: "owner-repo", certainty: 1 }];
+   }
+
+   return [];
+}
+
+function extractPackageHints(task: string): TaskHint[] {
+   const hints: TaskHint[] = [];
+   const add = (value: string, name: string, source: RepoHintSource, certainty: number) => {
+      if (!name || hints.some((hint) => hint.name === name)) return;
+      hints.push({ kind: "package", value, name, source, certainty });
+   };
+
+   for (const match of task.matchAll(/(?:^|[\s`"'([])(npm|crates?|pypi|gem):(@?[A-Za-z0-9_.-]+(?:\/[A-Za-z0-9_.-]+)?(?:@[A-Za-z0-9_.-]+)?)/gi)) {
+      const name = cleanPackageName(match[2]);
+      add(`${ECOSYSTEM_PREFIXES[match[1].toLowerCase()]}:${name}`, name, "ecosystem", EXPLICIT_CERTAINTY);
+   }
+   for (const match of task.matchAll(/(?:^|[\s`"'(])(@[a-z0-9][a-z0-9._-]*\/[a-z0-9][a-z0-9._-]*)/g)) {
+      const name = cleanPackageName(match[1]);
+      add(name, name, "npm-scoped", EXPLICIT_CERTAINTY);
+   }
+   for (const match of task.matchAll(/`([a-z0-9][a-z0-9._-]*)`/g)) {
+      if (isBarePackageName(match[1])) add(match[1], match[1], "npm", BACKTICK_CERTAINTY);
+   }
+   const cuePattern = new RegExp(`\\b(?:${PACKAGE_CUE_WORDS.join("|")})\\s+([a-z0-9][a-z0-9._-]*[a-z0-9])(?=$|[\\s,.;:!?)'"])`, "g");
+   for (const match of task.matchAll(cuePattern)) {
+      if (isBarePackageName(match[1])) add(match[1], match[1], "cue", CUE_CERTAINTY);
+   }
+
+   return hints.sort((a, b) => b.certainty - a.certainty).slice(0, MAX_PACKAGE_HINTS);
+}
+
+export function extractTaskHints(task: string): TaskHint[] {
+   return [...extractRepoHints(task), ...extractPackageHints(task)];
+}
+
+function isIdentifier(word: string): boolean {
+   return /[a-z][A-Z]|[A-Z].*[A-Z]|_|[A-Za-z][.-][A-Za-z]/.test(word) && /^[A-Za-z_$][\w$.-]*$/.test(word);
+}
+
+export function extractSearchTerms(task: string): string[] {
+   const phrases: string[] = [];
+   const packages: string[] = [];
+   const identifiers: string[] = [];
+   const words: string[] = [];
+   const seen = new Set<string>();
+   const add = (bucket: string[], term: string) => {
+      const key = term.toLowerCase();
+      if (!term || seen.has(key)) return;
+      seen.add(key);
+      bucket.push(term);
+   };
+
+   const quoted = /"([^"\n]{2,60})"|`([^`\n]{2,60})`|(?:^|\s)'([^'\n]{2,60})'(?=$|[\s.,;:!?])/g;
+   for (const match of task.matchAll(quoted)) {
+      const phrase = (match[1] ?? match[2] ?? match[3]).trim();
+      if (!FILE_EXTENSION_PATTERN.test(phrase) && !phrase.includes("/")) add(phrases, phrase);
+   }
+   for (const hint of extractPackageHints(task)) {
+      if (hint.certainty === EXPLICIT_CERTAINTY) add(phrases, hint.name);
+      else if (hint.source === "cue") add(packages, hint.name);
+   }
+   const unquoted = task.replace(quoted, " ");
+   for (const token of unquoted.split(/\s+/)) {
+      const word = token.replace(/^[^\w@$]+|[^\w$]+$/g, "").replace(/'s$/, "");
+      if (!word || word.startsWith("@") || word.includes("/") || FILE_EXTENSION_PATTERN.test(word)) continue;
+      if (isIdentifier(word)) add(identifiers, word);
+      else if (/^[A-Za-z][A-Za-z0-9]{2,}$/.test(word) && !STOPWORDS.has(word.toLowerCase())) add(words, word.toLowerCase());
+   }
+
+   return [...phrases, ...packages, ...identifiers, ...words].slice(0, MAX_SEARCH_TERMS);
+}
+
+function matchQuality(name: string, match: RepoSearchMatch): number {
+   if (match.keywords?.some((keyword) => keyword.toLowerCase() === name)) return 1;
+   const [scope, bare] = name.startsWith("@") ? name.slice(1).split("/") : [undefined, name];
+   const [owner, repo] = match.repo.toLowerCase().split("/");
+   if (scope && owner === scope && repo === bare) return 0.9;
+   if (repo === bare || (scope && repo === `${scope}-${bare}`)) return 0.8;
+   return 0;
+}
+
+export function scorePackageMatches(hint: TaskHint, matches: RepoSearchMatch[]): PackageHintMatch[] {
+   const scored = matches
+      .map((match) => ({ ...match, confidence: Math.round(matchQuality(hint.name, match) * hint.certainty * 100) / 100 }))
+      .filter((match) => match.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence || b.score - a.score);
+   if (scored.length > 1 && scored[1].confidence === scored[0].confidence) {
+      return scored.map((match) => ({ ...match, confidence: match.confidence / 2 }));
+   }
+   return scored;
+}
@@ -0,0 +1,197 @@
+import * as path from "node:path";
+import { DEFAULT_MAX_BYTES, truncateHead, type ExtensionFactory, type ToolDefinition } from "@mariozechner/pi-coding-agent";
+import { Type, type Static } from "@sinclair/typebox";
+import { runGit } from "./git";
+import { toGitExcludePathspecs } from "./sensitive";
+
+export const HISTORY_TOOLS = ["git_log", "git_show", "git_blame"] as const;
+
+export type HistoryToolName = (typeof HISTORY_TOOLS)[number];
+
+const DEFAULT_LOG_COUNT = 20;
+const MAX_LOG_COUNT = 50;
+const MAX_BLAME_LINES = 400;
+const MAX_HISTORY_OUTPUT_LINES = 1000;
+const MAX_HISTORY_OUTPUT_BYTES = DEFAULT_MAX_BYTES;
+const MAX_SEARCH_LENGTH = 200;
+const COMMIT_PATTERN = /^[0-9a-f]{7,64}$/i;
+
+export interface HistoryToolsOptions {
+   cwd: string;
+   repoPath: string;
+   rev: string;
+   tools: string[];
+   excludeGlobs?: string[];
+}
+
+const GitLogParams = Type.Object({
+   path: Type.Optional(Type.String({ description: "File or directory to limit history to (relative to the clone root)" })),
+   maxCount: Type.Optional(Type.Integer({ minimum: 1, maximum: MAX_LOG_COUNT, description: `Commits to list (default ${DEFAULT_LOG_COUNT})` })),
+   message: Type.Optional(
+      Type.String({ minLength: 1, maxLength: MAX_SEARCH_LENGTH, description: "Only commits whose message contains this text (case-insensitive)" }),
+   ),
+   pickaxe: Type.Optional(
+      Type.String({ minLength: 1, maxLength: MAX_SEARCH_LENGTH, description: "Only commits that add or remove this exact string" }),
+   ),
+});
+
+const GitShowParams = Type.Object({
+   commit: Type.String({ pattern: "^[0-9a-fA-F]{7,64}$", description: "Commit SHA (7-64 hex characters) from git_log or git_blame" }),
+   path: Type.Optional(Type.String({ description: "Limit the diff to this file or directory" })),
+});
+
+const GitBlameParams = Type.Object({
+   path: Type.String({ minLength: 1, description: "File to blame (relative to the clone root)" }),
+   startLine: Type.Optional(Type.Integer({ minimum: 1, description: "First line to blame (1-based)" })),
+   endLine: Type.Optional(Type.Integer({ minimum: 1, description: `Last line to blame (at most ${MAX_BLAME_LINES} lines per call)` })),
+});
+
+export type GitLogInput = Static<typeof GitLogParams>;
+export type GitShowInput = Static<typeof GitShowParams>;
+export type GitBlameInput = Static<typeof GitBlameParams>;
+
+function toRepoRelative(cwd: string, rawPath: string): string {
+   const relative = path.relative(cwd, path.resolve(cwd, rawPath.trim().replace(/^@/, "")));
+   if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new Error(`Path is outside the explored repository: ${rawPath}`);
+   }
+   return relative.split(path.sep).join("/");
+}
+
+function toPathspec(cwd: string, rawPath?: string, excludeGlobs: string[] = []): string[] {
+   const relative = rawPath === undefined ? "" : toRepoRelative(cwd, rawPath);
+   return [...(relative ? [`:(literal)${relative}`] : []), ...toGitExcludePathspecs(excludeGlobs)];
+}
+
+function assertSafeText(value: string, label: string): void {
+   if (/[\u0000-\u001f\u007f]/.test(value)) throw new Error(`${label} must not contain control characters.`);
+}
+
+export function buildGitLogArgs(input: GitLogInput, options: Pick<HistoryToolsOptions, "cwd" | "rev" | "excludeGlobs">): string[] {
+   const maxCount = Math.min(Math.max(1, input.maxCount ?? DEFAULT_LOG_COUNT), MAX_LOG_COUNT);
+   const filters: string[] = [];
+   if (input.message !== undefined) {
+      assertSafeText(input.message, "message");
+      filters.push("--regexp-ignore-case", "--fixed-strings", `--grep=${input.message}`);
+   }
+   if (input.pickaxe !== undefined) {
+      assertSafeText(input.pickaxe, "pickaxe");
+      filters.push(`-S${input.pickaxe}`);
+   }
+   return [
+      "log",
+      "--no-color",
+      "--no-ext-diff",
+      `--max-count=${maxCount}`,
+      "--date=short",
+      "--format=%H %ad %an%n    %s",
+      ...filters,
+      options.rev,
+      "--",
+      ...toPathspec(options.cwd, input.path, options.excludeGlobs),
+   ];
+}
+
+export function buildGitShowArgs(input: GitShowInput, options: Pick<HistoryToolsOptions, "cwd" | "excludeGlobs">): string[] {
+   if (!COMMIT_PATTERN.test(input.commit)) throw new Error(`Invalid commit SHA: ${input.commit}`);
+   return [
+      "show",
+      "--no-color",
+      "--no-ext-diff",
+      "--format=fuller",
+      "--stat",
+      "--patch",
+      input.commit,
+      "--",
+      ...toPathspec(options.cwd, input.path, options.excludeGlobs),
+   ];
+}
+
+export function buildGitBlameArgs(input: GitBlameInput, options: Pick<HistoryToolsOptions, "cwd" | "rev">): string[] {
+   const relative = toRepoRelative(options.cwd, input.path);
+   if (!relative) throw new Error("git_blame needs a file path.");
+   const startLine = input.startLine ?? 1;
+   const endLine = Math.min(input.endLine ?? startLine + MAX_BLAME_LINES - 1, startLine + MAX_BLAME_LINES - 1);
+   if (endLine < startLine) throw new Error(`endLine ${endLine} is before startLine ${startLine}.`);
+   return ["blame", "--date=short", "--abbrev=12", `-L${startLine},${endLine}`, options.rev, "--", relative];
+}
+
+function capOutput(output: string): { text: string; truncated: boolean } {
+   const truncated = truncateHead(output, { maxLines: MAX_HISTORY_OUTPUT_LINES, maxBytes: MAX_HISTORY_OUTPUT_BYTES });
+   if (!truncated.truncated) return { text: output, truncated: false };
+   return {
+      text: `${truncated.content}\n\n[output truncated: showing ${truncated.outputLines} of ${truncated.totalLines} lines; narrow the path or range]`,
+      truncated: true,
+   };
+}
+
+function defineHistoryTool<TParams extends typeof GitLogParams | typeof GitShowParams | typeof GitBlameParams>(
+   name: HistoryToolName,
+   label: string,
+   description: string,
+   parameters: TParams,
+   buildArgs: (input: Static<TParams>) => string[],
+   repoPath: string,
+   pi: Parameters<ExtensionFactory>[0],
+): ToolDefinition<TParams> {
+   return {
+      name,
+      label,
+      description,
+      parameters,
+      async execute(_toolCallId, input, signal) {
+         const args = buildArgs(input);
+         const result = await runGit(pi, repoPath, args, signal);
+         if (result.code !== 0) {
+            throw new Error(`${name} failed: ${result.stderr.trim() || `git exited with code ${result.code}`}`);
+         }
+         const { text, truncated } = capOutput(result.stdout.trim() || "(no matching history)");
+         return { content: [{ type: "text", text }], details: { truncated } };
+      },
+   };
+}
+
+export function createHistoryExtension(options: HistoryToolsOptions): ExtensionFactory {
+   return (pi) => {
+      const enabled = (name: HistoryToolName) => options.tools.includes(name);
+      if (enabled("git_log")) {
+         pi.registerTool(
+            defineHistoryTool(
+               "git_log",
+               "Git Log",
+               "List commits of the explored repository (newest first) with full SHAs, optionally limited to a path, a message substring or a pickaxe string.",
+               GitLogParams,
+               (input) => buildGitLogArgs(input, options),
+               options.repoPath,
+               pi,
+            ),
+         );
+      }
+      if (enabled("git_show")) {
+         pi.registerTool(
+            defineHistoryTool(
+               "git_show",
+               "Git Show",
+               "Show the message, stat and diff of one commit by SHA, optionally limited to a path.",
+               GitShowParams,
+               (input) => buildGitShowArgs(input, options),
+               options.repoPath,
+               pi,
+            ),
+         );
+      }
+      if (enabled("git_blame")) {
+         pi.registerTool(
+            defineHistoryTool(
+               "git_blame",
+               "Git Blame",
+               `Show which commit last changed each line of a file, for at most ${MAX_BLAME_LINES} lines per call.`,
+               GitBlameParams,
+               (input) => buildGitBlameArgs(input, options),
+               options.repoPath,
+               pi,
+            ),
+         );
+      }
+   };
+}
@@ -1,66 +1,190 @@
-import { type ExtensionAPI, type ExtensionContext, getMarkdownTheme } from "@mariozechner/pi-coding-agent";
+import {
+   type AgentToolResult,
+   type ExtensionAPI,
+   type ExtensionContext,
+   type Theme,
+   type ToolDefinition,
+   getMarkdownTheme,
+} from "@mariozechner/pi-coding-agent";
 import * as path from "node:path";
 import { Container, Markdown, Spacer, Text } from "@mariozechner/pi-tui";
-import { ReplicantOffworldError, resolveRepoWithOffworld, type ResolvedRepo } from "./offworld";
+import {
+   DEFAULT_AGENT,
+   AGENT_TOOLS,
+   RECON_TOOLS,
+   isValidAgentName,
+   ReplicantAgentError,
+   loadAgentProfiles,
+   selectAgent,
+   type AgentDefinition,
+   type AgentDiagnostic,
+} from "./agents";
+import {
+   answerCacheKey,
+   defaultAnswerCacheDir,
+   readCachedAnswer,
+   writeCachedAnswer,
+   type AnswerCacheOptions,
+} from "./cache";
+import {
+   annotateInvalidCitations,
+   buildCitationRepairPrompt,
+   citationsFromStructured,
+   describeCitationCheck,
+   extractCitations,
+   formatCitationNote,
+   hasTooManyInvalidCitations,
+   verifyCitations,
+   type CitationReport,
+   type CitationRoot,
+} from "./citations";
+import { Columns } from "./columns";
+import { registerReplicantCommand, registerTranscriptsCommand } from "./command";
+import { ReplicantConfigError, loadReplicantConfig, type ReplicantConfig } from "./config";
+import { formatFreshness, readCloneFreshness, type CloneFreshness } from "./freshness";
+import { readHeadCommit } from "./git";
+import { normalizeRepoHint, type RepoHint } from "./hints";
+import { HISTORY_TOOLS } from "./history";
+import {
+   ReplicantOffworldError,
+   pathLooksLikeClone,
+   resolveLocalRepo,
+   resolveRepo,
+   type RepoResolver,
+   type RepoSearchCandidate,
+   type RepoSelection,
+   type ResolvedRepo,
+} from "./offworld";
+import { ReplicantRefError, defaultRefExportDir, materializeRef } from "./refs";
+import { createRepoResolvers } from "./resolvers";
+import { createSubagentScheduler, type SubagentScheduler } from "./scheduler";
+import type { SensitiveFilePolicy } from "./sensitive";
+import { ReplicantSessionError, createSessionStore, type SessionStore } from "./sessions";
+import { defaultTranscriptDir, type ReplicantTranscriptOptions } from "./transcripts";
 import {
    ReplicantParamsSchema,
+   MAX_AGENT_NAME_LENGTH,
+   MAX_COMPARE_REPOS,
    MAX_CWD_LENGTH,
+   MAX_REF_LENGTH,
    MAX_REPO_LENGTH,
    MAX_TASK_LENGTH,
    assertNoControlChars,
-   normalizeRepoHint,
+   isValidGitRef,
+   splitRepoRef,
    type ReplicantParams,
 } from "./schemas";
-import { runReplicantSubprocess, type ReplicantSubprocessDetails } from "./subproc";
+import {
+   buildJsonOutputInstructions,
+   buildJsonRepairPrompt,
+   formatStructuredAnswerMarkdown,
+   parseStructuredAnswer,
+   type ReplicantStructuredAnswer,
+} from "./structured";
+import {
+   addTokenUsage,
+   emptyTokenUsage,
+   isBlockedDecision,
+   runReplicantSubprocess,
+   type ReplicantHistorySource,
+   type ReplicantSubprocessDetails,
+   type ReplicantTokenUsage,
+} from "./subproc";
 
-type AgentDefinition = {
-   name: string;
-   description: string;
-   model?: string;
-   tools: string[];
-   systemPrompt: string;
+type ReplicantBudget = {
+   maxTurns: number;
+   maxToolCalls: number;
+};
+
+type ReplicantOutputFormat = NonNullable<ReplicantParams["format"]>;
+
+type ReplicantSessionDetails = {
+   id: string;
+   followUps: number;
+   budget: ReplicantConfig["sessions"]["budget"];
+   idleMinutes: number;
+};
+
+type ReplicantSessionContext = {
+   repo: ResolvedRepo;
+   agent: string;
+   budget: ReplicantBudget;
+};
+
+type ReplicantHostUsage = ReplicantTokenUsage & {
+   calls: number;
+};
+
+type ReplicantCacheDetails = {
+   hit: boolean;
+   commit: string;
+   createdAt: number;
+};
+
+type ReplicantRepoRunDetails = {
+   status: "running" | "done" | "error";
+   repo: string;
+   qualifiedName?: string;
+   clonePath?: string;
+   referencePath?: string;
+   resolvedFrom?: ResolvedRepo["resolvedFrom"];
+   resolver?: string;
+   freshness?: CloneFreshness;
+   ref?: string;
+   commit?: string;
+   sourceClonePath?: string;
+   phase?: ReplicantSubprocessDetails["phase"];
+   queuePosition?: number;
+   subprocess?: ReplicantSubprocessDetails;
+   errorMessage?: string;
 };
 
 type ReplicantToolDetails = {
    status: "running" | "done" | "error";
+   agent?: string;
+   agentDiagnostics?: AgentDiagnostic[];
    repo?: string;
    task?: string;
    qualifiedName?: string;
    scope?: string;
    clonePath?: string;
    referencePath?: string;
-   resolvedFrom?: "existing" | "pulled";
-   searchCandidates?: Array<{ repo: string; score: number }>;
+   resolvedFrom?: ResolvedRepo["resolvedFrom"];
+   resolver?: string;
+   freshness?: CloneFreshness;
+   ref?: string;
+   commit?: string;
+   sourceClonePath?: string;
+   searchCandidates?: RepoSearchCandidate[];
+   hint?: RepoHint;
+   selection?: RepoSelection;
+   budget?: ReplicantBudget;
+   queuePosition?: number;
+   cache?: ReplicantCacheDetails;
+   session?: ReplicantSessionDetails;
+   sessionNote?: string;
+   format?: ReplicantOutputFormat;
+   structured?: ReplicantStructuredAnswer;
+   structuredError?: string;
+   citations?: CitationReport;
    phase?: ReplicantSubprocessDetails["phase"];
    subprocess?: ReplicantSubprocessDetails;
+   comparison?: ReplicantRepoRunDetails[];
+   usage?: ReplicantTokenUsage;
+   hostUsage?: ReplicantHostUsage;
+   transcriptPath?: string;
    remediation?: string;
 };
 
-const DEFAULT_AGENT: AgentDefinition = {
-   name: "replicant",
-   description: "Offworld-powered codebase exploration specialist",
-   model: "claude-sonnet-4-5",
-   tools: ["read", "grep", "find", "ls"],
-   systemPrompt: [
-      "You are a reconnaissance specialist for external repositories resolved by Offworld.",
-      "",
-      "Use the provided referencePath and clonePath as primary context.",
-      "Prefer evidence from source files in the resolved clone and cite concrete line ranges.",
-      "",
-      "Return a direct answer to the task instead of filling a fixed template.",
-      "Cite file paths with line ranges for concrete code claims.",
-      "If evidence is partial, state uncertainty briefly and continue with the best-supported answer.",
-      "Use short bullets only when they improve clarity; otherwise respond in compact prose.",
-      "",
-      "Constraints:",
-      "- No edits; reconnaissance only.",
-      "- Do not claim facts without file-level evidence.",
-      "- Keep output concise, dense, and implementation-oriented.",
-   ].join("\n"),
-};
-const RECON_TOOLS = ["read", "grep", "find", "ls"] as const;
-const MAX_TURNS = 10;
-const MAX_TOOL_CALLS = 60;
+const COMPARISON_SYSTEM_PROMPT = [
+   "You synthesize reconnaissance findings from several external repositories into one comparison.",
+   "",
+   "Work only from the per-repository findings you are given; you have no tools.",
+   "Answer the task by contrasting the repositories directly instead of summarizing each one in turn.",
+   "Keep every concrete code claim attached to its repository citation, written as owner/repo:path#Lx-Ly.",
+   "If a repository's findings are missing or partial, say so instead of guessing.",
+   "Keep output concise, dense, and implementation-oriented.",
+].join("\n");
 
 const TASK_PREVIEW_MAX_CHARS = 90;
 
@@ -73,8 +197,12 @@ function toTaskPreview(task: string, maxChars = TASK_PREVIEW_MAX_CHARS): string
 }
 
 function toolsForAgent(agent: AgentDefinition): string[] {
-   const selected = RECON_TOOLS.filter((tool) => agent.tools.includes(tool));
-   return selected.length > 0 ? [...selected] : ["read", "grep", "find", "ls"];
+   const selected = AGENT_TOOLS.filter((tool) => agent.tools.includes(tool));
+   return selected.length > 0 ? [...selected] : [...RECON_TOOLS];
+}
+
+function historySourceFor(repo: ResolvedRepo): ReplicantHistorySource {
+   return { repoPath: repo.sourceClonePath ?? repo.clonePath, rev: repo.commit ?? "HEAD" };
 }
 
 function buildSubprocessSystemPrompt(basePrompt: string, tools: string[], maxTurns: number, maxToolCalls: number): string {
@@ -84,15 +212,35 @@ function buildSubprocessSystemPrompt(basePrompt: string, tools: string[], maxTur
       "Execution policy:",
       `- Available tools: ${tools.join(", ")}`,
       "- Read referencePath first before broad source exploration.",
+      ...(tools.includes("symbols") ? ["- Use symbols to find definitions and references before grepping for them."] : []),
       "- Prefer targeted grep/ls reads over wide scans.",
       "- Stop as soon as you can answer with concrete evidence.",
       `- Hard budget: at most ${maxTurns} turns and ${maxToolCalls} tool calls.`,
       "- If evidence is insufficient, report uncertainty instead of over-searching.",
+      ...(tools.some((tool) => (HISTORY_TOOLS as readonly string[]).includes(tool))
+         ? ["- When a claim comes from git history, cite the commit SHA, e.g. `<sha>:path/to/file.ts:12` or `commit <sha>`."]
+         : []),
    ].join("\n");
 }
 
 
-function buildTaskPrompt(task: string, repo: ResolvedRepo, maxTurns: number, maxToolCalls: number): string {
+function buildTaskPrompt(
+   task: string,
+   repo: ResolvedRepo,
+   maxTurns: number,
+   maxToolCalls: number,
+   comparedRepos: string[] = [],
+): string {
+   const comparisonLines =
+      comparedRepos.length > 1
+         ? [
+            "",
+            "Comparison context:",
+            `- This run covers ${repo.repo}, one of: ${comparedRepos.join(", ")}.`,
+            "- Investigate only this repository; a separate step compares the findings.",
+            "- Report the facts another reviewer needs to contrast it with the others.",
+         ]
+         : [];
    return [
       "Task:",
       task,
@@ -100,10 +248,14 @@ function buildTaskPrompt(task: string, repo: ResolvedRepo, maxTurns: number, max
       "Resolved repository metadata:",
       `- repo: ${repo.repo}`,
       `- qualifiedName: ${repo.qualifiedName}`,
+      ...(repo.host ? [`- host: ${repo.host}`] : []),
       `- scope: ${repo.scope}`,
-      `- resolvedFrom: ${repo.resolvedFrom}`,
-      `- referencePath: ${repo.referencePath}`,
+      `- resolvedFrom: ${repo.resolvedFrom} (resolver: ${repo.resolver})`,
+      `- referencePath: ${repo.referencePath || "(none; start from clonePath)"}`,
       `- clonePath: ${repo.clonePath}`,
+      ...(repo.freshness ? [`- freshness: ${formatFreshness(repo.freshness)}`] : []),
+      ...(repo.ref ? [`- ref: ${repo.ref} (commit ${repo.commit ?? "unknown"}); clonePath is a read-only export of this ref`] : []),
+      ...comparisonLines,
       "",
       "Requirements:",
       "- Read referencePath first, then inspect clonePath only as needed.",
@@ -117,7 +269,156 @@ function buildTaskPrompt(task: string, repo: ResolvedRepo, maxTurns: number, max
 }
 
 
-function validateParams(params: ReplicantParams): ReplicantParams {
+function buildComparisonPrompt(task: string, runs: Array<{ repo: string; finalText?: string; errorMessage?: string }>): string {
+   const sections = runs.flatMap((run) => [
+      "",
+      `## ${run.repo}`,
+      run.finalText?.trim() || `(exploration failed: ${run.errorMessage ?? "no output"})`,
+   ]);
+   return [
+      "Task:",
+      task,
+      "",
+      `Per-repository findings (${runs.map((run) => run.repo).join(", ")}):`,
+      ...sections,
+      "",
+      "Requirements:",
+      "- Produce one comparison that answers the task across all repositories.",
+      "- Prefix every file citation with its repository, e.g. owner/repo:src/file.ts#L10-L20.",
+      "- Preserve the line ranges cited in the findings; do not invent new ones.",
+      "- Call out repositories whose findings are missing or inconclusive.",
+   ].join("\n");
+}
+
+
+function buildFollowUpPrompt(task: string, maxTurns: number, remainingToolCalls: number): string {
+   return [
+      "Follow-up task:",
+      task,
+      "",
+      "Requirements:",
+      "- Build on the evidence you already gathered in this conversation; re-read files only when needed.",
+      "- Stay within the same repository paths as before.",
+      "- Cite file paths with line ranges for all concrete code claims.",
+      `- Stay within budget: max ${maxTurns} turns and ${remainingToolCalls} more tool calls.`,
+   ].join("\n");
+}
+
+function sessionNote(session: ReplicantSessionDetails): string {
+   return `[replicant session ${session.id}: pass sessionId "${session.id}" to ask a follow-up; it expires after ${session.idleMinutes} idle minutes]`;
+}
+
+function withOutputFormat(taskPrompt: string, format: ReplicantOutputFormat, withRepo = false): string {
+   return format === "json" ? `${taskPrompt}\n\n${buildJsonOutputInstructions(withRepo)}` : taskPrompt;
+}
+
+function structuredRepairPrompt(format: ReplicantOutputFormat): ((finalText: string) => string | undefined) | undefined {
+   if (format !== "json") return undefined;
+   return (finalText) => {
+      const parsed = parseStructuredAnswer(finalText);
+      return parsed.ok ? undefined : buildJsonRepairPrompt(parsed.error);
+   };
+}
+
+function answerRepairPrompt(
+   pi: ExtensionAPI,
+   format: ReplicantOutputFormat,
+   config: ReplicantConfig,
+   roots: CitationRoot[],
+): ((finalText: string) => Promise<string | undefined>) | undefined {
+   const structuredRepair = structuredRepairPrompt(format);
+   const citationRepair = config.citations.verify && config.citations.onInvalid === "reprompt";
+   if (!structuredRepair && !citationRepair) return undefined;
+   return async (finalText) => {
+      const structuredPrompt = structuredRepair?.(finalText);
+      if (structuredPrompt || !citationRepair) return structuredPrompt;
+      const report = await verifyAnswerCitations(pi, finalText, format, roots);
+      return hasTooManyInvalidCitations(report, config.citations.maxInvalidRatio) ? buildCitationRepairPrompt(report) : undefined;
+   };
+}
+
+async function verifyAnswerCitations(
+   pi: ExtensionAPI,
+   finalText: string,
+   format: ReplicantOutputFormat,
+   roots: CitationRoot[],
+): Promise<CitationReport> {
+   const parsed = format === "json" ? parseStructuredAnswer(finalText) : undefined;
+   const citations = parsed?.ok
+      ? citationsFromStructured(parsed.value)
+      : extractCitations(finalText, roots.map((root) => root.repo));
+   return verifyCitations(citations, roots, pi);
+}
+
+async function checkCitations(
+   pi: ExtensionAPI,
+   output: { text: string },
+   finalText: string,
+   format: ReplicantOutputFormat,
+   config: ReplicantConfig,
+   roots: CitationRoot[],
+): Promise<CitationReport | undefined> {
+   if (!config.citations.verify || roots.length === 0) return undefined;
+   const report = await verifyAnswerCitations(pi, finalText, format, roots);
+   if (config.citations.onInvalid === "fail" && hasTooManyInvalidCitations(report, config.citations.maxInvalidRatio)) {
+      throw new Error(
+         `Citation verification failed: ${report.invalid} of ${report.total} citations do not match the repository (max ratio ${config.citations.maxInvalidRatio}).`,
+      );
+   }
+   const note = formatCitationNote(report);
+   if (note) output.text = `${output.text}\n\n${note}`;
+   return report;
+}
+
+function transcriptOptions(
+   config: ReplicantConfig,
+   enabled: boolean | undefined,
+   label: string,
+   meta: Record<string, unknown>,
+): ReplicantTranscriptOptions | undefined {
+   if (!(enabled ?? config.transcripts.enabled)) return undefined;
+   return {
+      dir: config.transcripts.dir ?? defaultTranscriptDir(),
+      label,
+      maxResultBytes: config.transcripts.maxResultBytes,
+      maxFiles: config.transcripts.maxFiles,
+      meta,
+   };
+}
+
+function sensitivePolicy(config: ReplicantConfig): SensitiveFilePolicy | undefined {
+   const { enabled, denyGlobs, extraDenyGlobs, ...rules } = config.sensitive;
+   return enabled ? { ...rules, denyGlobs: [...denyGlobs, ...extraDenyGlobs] } : undefined;
+}
+
+function softTimeBudgetMs(config: ReplicantConfig): number | undefined {
+   return config.budgets.softTimeBudgetSeconds > 0 ? config.budgets.softTimeBudgetSeconds * 1000 : undefined;
+}
+
+function citationRootsFor(
+   repos: Array<{ repo: string; clonePath?: string; referencePath?: string; sourceClonePath?: string }>,
+): CitationRoot[] {
+   return repos.flatMap((repo) =>
+      repo.clonePath
+         ? [{ repo: repo.repo, clonePath: repo.clonePath, referencePath: repo.referencePath, gitPath: repo.sourceClonePath }]
+         : [],
+   );
+}
+
+function finalizeOutput(finalText: string, format: ReplicantOutputFormat) {
+   if (format !== "json") return { text: finalText };
+   const parsed = parseStructuredAnswer(finalText);
+   if (!parsed.ok) {
+      return {
+         text: `${finalText}\n\n[replicant: JSON output invalid after repair attempt: ${parsed.error}]`,
+         structuredError: parsed.error,
+      };
+   }
+   return { text: JSON.stringify(parsed.value, null, 2), structured: parsed.value };
+}
+
+
+function validateParams(params: ReplicantParams, config: ReplicantConfig): ReplicantParams {
    if (params.task.length > MAX_TASK_LENGTH) {
       throw new Error(`Invalid task: max length is ${MAX_TASK_LENGTH}.`);
    }
@@ -126,6 +427,77 @@ function validateParams(params: ReplicantParams): ReplicantParams {
       throw new Error(`Invalid repo: max length is ${MAX_REPO_LENGTH}.`);
    }
 
+   if (params.repo && params.repos) {
+      throw new Error("Invalid params: repo and repos are mutually exclusive.");
+   }
+
+   if (params.path && (params.repo || params.repos)) {
+      throw new Error("Invalid params: path is mutually exclusive with repo and repos.");
+   }
+
+   if (params.path && params.path.length > MAX_CWD_LENGTH) {
+      throw new Error(`Invalid path: max length is ${MAX_CWD_LENGTH}.`);
+   }
+
+   if (params.ref && params.repos) {
+      throw new Error("Invalid params: ref applies to repo only; use owner/repo@ref entries in repos.");
+   }
+
+   if (params.ref && (params.ref.length > MAX_REF_LENGTH || !isValidGitRef(params.ref))) {
+      throw new Error(`Invalid ref: expected a tag, branch or commit name of at most ${MAX_REF_LENGTH} characters.`);
+   }
+
+   for (const hint of [params.repo, ...(params.repos ?? [])]) {
+      const hintRef = hint ? splitRepoRef(hint.trim()).ref : undefined;
+      if (hintRef && !isValidGitRef(hintRef)) {
+         throw new Error(`Invalid ref in repo hint ${hint}: expected a tag, branch or commit name.`);
+      }
+      if (hintRef && params.ref && hintRef !== params.ref) {
+         throw new Error(`Invalid params: ref ${params.ref} conflicts with repo hint ${hint}.`);
+      }
+   }
+
+   if (params.repos) {
+      if (params.repos.length < 2 || params.repos.length > MAX_COMPARE_REPOS) {
+         throw new Error(`Invalid repos: expected between 2 and ${MAX_COMPARE_REPOS} entries.`);
+      }
+      for (const repo of params.repos) {
+         if (repo.length > MAX_REPO_LENGTH) {
+            throw new Error(`Invalid repos: max length per entry is ${MAX_REPO_LENGTH}.`);
+         }
+         assertNoControlChars(repo, "repos");
+      }
+   }
+
+   if (params.agent && (params.agent.length > MAX_AGENT_NAME_LENGTH || !isValidAgentName(params.agent))) {
+      throw new Error(`Invalid agent: expected a profile name of at most ${MAX_AGENT_NAME_LENGTH} letters, digits, '.', '_' or '-'.`);
+   }
+
+   const { maxTurnsCap, maxToolCallsCap } = config.budgets;
+   if (params.maxTurns !== undefined && (!Number.isInteger(params.maxTurns) || params.maxTurns < 2 || params.maxTurns > maxTurnsCap)) {
+      throw new Error(`Invalid maxTurns: expected an integer between 2 and ${maxTurnsCap}.`);
+   }
+
+   if (
+      params.maxToolCalls !== undefined &&
+      (!Number.isInteger(params.maxToolCalls) || params.maxToolCalls < 1 || params.maxToolCalls > maxToolCallsCap)
+   ) {
+      throw new Error(`Invalid maxToolCalls: expected an integer between 1 and ${maxToolCallsCap}.`);
+   }
+
+   if (params.sessionId) {
+      const conflicting = (["repo", "repos", "path", "ref", "agent", "maxTurns", "maxToolCalls", "keepSession", "cwd"] as const).filter(
+         (key) => params[key] !== undefined,
+      );
+      if (conflicting.length > 0) {
+         throw new Error(`Invalid params: sessionId reuses the session's scope and budget; remove ${conflicting.join(", ")}.`);
+      }
+   }
+
+   if (params.keepSession && params.repos) {
+      throw new Error("Invalid params: keepSession is not supported when comparing repos.");
+   }
+
    if (params.cwd && params.cwd.length > MAX_CWD_LENGTH) {
       throw new Error(`Invalid cwd: max length is ${MAX_CWD_LENGTH}.`);
    }
@@ -133,10 +505,105 @@ function validateParams(params: ReplicantParams): ReplicantParams {
    assertNoControlChars(params.task, "task");
    if (params.repo) assertNoControlChars(params.repo, "repo");
    if (params.cwd) assertNoControlChars(params.cwd, "cwd");
+   if (params.path) assertNoControlChars(params.path, "path");
 
    return params;
 }
 
+function resolveBudget(params: ReplicantParams, agent: AgentDefinition, config: ReplicantConfig): ReplicantBudget {
+   const { defaultMaxTurns, defaultMaxToolCalls, maxTurnsCap, maxToolCallsCap } = config.budgets;
+   return {
+      maxTurns: params.maxTurns ?? Math.min(agent.maxTurns ?? defaultMaxTurns, maxTurnsCap),
+      maxToolCalls: params.maxToolCalls ?? Math.min(agent.maxToolCalls ?? defaultMaxToolCalls, maxToolCallsCap),
+   };
+}
+
+function answerCacheOptions(config: ReplicantConfig): AnswerCacheOptions | undefined {
+   if (!config.cache.enabled) return undefined;
+   return {
+      dir: config.cache.dir ?? defaultAnswerCacheDir(),
+      ttlMs: config.cache.ttlHours * 60 * 60 * 1000,
+      maxEntries: config.cache.maxEntries,
+      maxBytes: config.cache.maxBytes,
+   };
+}
+
+function errorRemediation(error: unknown): string | undefined {
+   if (
+      error instanceof ReplicantOffworldError ||
+      error instanceof ReplicantAgentError ||
+      error instanceof ReplicantConfigError ||
+      error instanceof ReplicantRefError ||
+      error instanceof ReplicantSessionError
+   ) {
+      return error.remediation;
+   }
+   return undefined;
+}
+
+async function checkFreshness(
+   pi: ExtensionAPI,
+   ctx: ExtensionContext,
+   repo: ResolvedRepo,
+   resolvers: RepoResolver[],
+   config: ReplicantConfig,
+   cwd?: string,
+   signal?: AbortSignal,
+   onStatus?: (status: string) => void,
+): Promise<ResolvedRepo> {
+   if (!config.freshness.enabled) return repo;
+   if (repo.resolvedFrom === "local" && !(await pathLooksLikeClone(repo.clonePath))) return repo;
+   onStatus?.("checking-freshness");
+   const freshness = await readCloneFreshness(pi, repo.clonePath, config.freshness, signal);
+   if (!freshness?.stale || config.freshness.onStale === "report") return { ...repo, freshness };
+
+   const resolver = resolvers.find((candidate) => candidate.name === repo.resolver);
+   if (!resolver?.refresh) return { ...repo, freshness };
+   if (config.freshness.onStale === "confirm") {
+      const ok =
+         ctx.hasUI &&
+         (await ctx.ui.confirm(
+            "Refresh stale clone?",
+            `${repo.repo}: ${freshness.reasons.join("; ")}. Refresh it through ${resolver.name} before exploring?`,
+         ));
+      if (!ok) return { ...repo, freshness };
+   }
+
+   try {
+      await resolver.refresh(
+         { repo: repo.repo, qualifiedName: repo.qualifiedName, scope: repo.scope, clonePath: repo.clonePath },
+         { pi, ctx, signal, cwd, onStatus },
+      );
+   } catch (error) {
+      return { ...repo, freshness: { ...freshness, refreshError: error instanceof Error ? error.message : String(error) } };
+   }
+   const refreshed = await readCloneFreshness(pi, repo.clonePath, config.freshness, signal);
+   return { ...repo, freshness: refreshed ? { ...refreshed, refreshed: true } : freshness };
+}
+
+async function checkoutRef(
+   pi: ExtensionAPI,
+   repo: ResolvedRepo,
+   config: ReplicantConfig,
+   exportHolds: Array<() => void>,
+   signal?: AbortSignal,
+   onStatus?: (status: string) => void,
+): Promise<ResolvedRepo> {
+   if (!repo.ref) return repo;
+   const exported = await materializeRef({
+      pi,
+      repo: repo.repo,
+      clonePath: repo.clonePath,
+      ref: repo.ref,
+      dir: config.refs.dir ?? defaultRefExportDir(),
+      maxExports: config.refs.maxExports,
+      signal,
+      onStatus,
+   });
+   exportHolds.push(exported.release);
+   return { ...repo, clonePath: exported.path, sourceClonePath: repo.clonePath, commit: exported.commit };
+}
+
 function modelFromContext(ctx: ExtensionContext): string | undefined {
    const provider = typeof ctx.model?.provider === "string" ? ctx.model.provider.trim() : "";
    const modelId = typeof ctx.model?.id === "string" ? ctx.model.id.trim() : "";
@@ -144,8 +611,9 @@ function modelFromContext(ctx: ExtensionContext): string | undefined {
    return `${provider}/${modelId}`;
 }
 
-function modelForRecon(hostModel?: string, agentModel?: string): string | undefined {
-   return hostModel ?? agentModel ?? "claude-sonnet-4-5";
+function modelForRecon(hostModel: string | undefined, agent: AgentDefinition): string | undefined {
+   if (agent.source !== "builtin" && agent.model) return agent.model;
+   return hostModel ?? agent.model ?? "claude-sonnet-4-5";
 }
 
 function toRepoRelativeDisplayPath(rawPath: string, repoRoot?: string): string {
@@ -167,6 +635,7 @@ function toOffworldReferenceDisplayPath(rawPath: string, repoRoot?: string, refe
          ? path.resolve(repoRoot, rawPath)
          : path.resolve(rawPath);
    if (absolutePath !== absoluteReferencePath) return undefined;
+   if (repoRoot && !path.relative(path.resolve(repoRoot), absoluteReferencePath).startsWith("..")) return undefined;
    return `offworld/references/${path.basename(referencePath)}`;
 }
 
@@ -203,18 +672,335 @@ function summarizeToolArgs(args: unknown, repoRoot?: string, referencePath?: str
       })
       .join(" ");
 }
-function formatToolCallLines(subprocess?: ReplicantSubprocessDetails, repoRoot?: string, referencePath?: string): string[] {
+function formatToolCallLines(
+   subprocess: ReplicantSubprocessDetails | undefined,
+   theme: Theme,
+   repoRoot?: string,
+   referencePath?: string,
+): string[] {
    if (!subprocess) return [];
+   const blocked = new Map(
+      (subprocess.policyDecisions ?? []).filter(isBlockedDecision).map((decision) => [decision.toolCallId, decision]),
+   );
    const toolStarts = subprocess.events.filter((event) => event.type === "tool_start");
    return toolStarts.map((event) => {
       const args = summarizeToolArgs(event.args, repoRoot, referencePath);
-      return `${event.toolName}${args ? ` ${args}` : ""}`;
+      const line = `${event.toolName}${args ? ` ${args}` : ""}`;
+      const decision = event.toolCallId ? blocked.get(event.toolCallId) : undefined;
+      return decision ? theme.fg("warning", `⊘ ${line} [${decision.decision}]`) : theme.fg("toolOutput", line);
    });
 }
 
+function formatRepoHint(hint: RepoHint): string {
+   const confidence = hint.confidence !== undefined ? `, confidence ${hint.confidence}` : "";
+   return `${hint.value} (${hint.source}${confidence})`;
+}
+
+function formatPolicySummary(subprocess: ReplicantSubprocessDetails): string | undefined {
+   const decisions = subprocess.policyDecisions ?? [];
+   const blocked = decisions.filter(isBlockedDecision);
+   if (blocked.length === 0) return undefined;
+   const counts = new Map<string, number>();
+   for (const decision of blocked) {
+      const kind = decision.decision.replace(/^blocked-/, "");
+      counts.set(kind, (counts.get(kind) ?? 0) + 1);
+   }
+   const breakdown = [...counts].map(([kind, count]) => `${kind} ${count}`).join(", ");
+   const wrapUp = subprocess.budgetExhausted
+      ? `; ${subprocess.budgetExhausted === "time" ? "time" : "tool call"} budget exhausted, answered with the evidence gathered`
+      : "";
+   return `policy: ${blocked.length} of ${decisions.length} tool calls blocked (${breakdown})${wrapUp}`;
+}
+function formatTokenCount(count: number): string {
+   if (count < 1000) return String(count);
+   if (count < 1_000_000) return `${(count / 1000).toFixed(1)}k`;
+   return `${(count / 1_000_000).toFixed(2)}M`;
+}
+
+function formatTokenUsage(usage: ReplicantTokenUsage): string {
+   const cache = usage.cacheRead + usage.cacheWrite;
+   const cost = usage.cost > 0 ? ` cost=$${usage.cost.toFixed(usage.cost < 0.01 ? 4 : 2)}` : "";
+   return `tokens in=${formatTokenCount(usage.input)} out=${formatTokenCount(usage.output)}${cache > 0 ? ` cache=${formatTokenCount(cache)}` : ""}${cost}`;
+}
+
+function formatRunStats(subprocess: ReplicantSubprocessDetails): string {
+   const usage = subprocess.usage && subprocess.usage.totalTokens > 0 ? ` ${formatTokenUsage(subprocess.usage)}` : "";
+   return `tool calls=${subprocess.toolCalls}/${subprocess.maxToolCalls} errors=${subprocess.toolErrors} turns=${subprocess.turns}/${subprocess.maxTurns}${usage}`;
+}
+
+function callUsage(details: ReplicantToolDetails): ReplicantTokenUsage | undefined {
+   if (details.cache?.hit) return undefined;
+   const parts = [details.subprocess, ...(details.comparison ?? []).map((run) => run.subprocess)].flatMap((subprocess) =>
+      subprocess?.usage ? [subprocess.usage] : [],
+   );
+   if (parts.length === 0) return undefined;
+   return parts.reduce<ReplicantTokenUsage>((total, usage) => addTokenUsage(total, usage), emptyTokenUsage());
+}
+
+function statusIcon(status: ReplicantToolDetails["status"], theme: Theme): string {
+   return status === "done"
+      ? theme.fg("success", "✓")
+      : status === "error"
+         ? theme.fg("error", "✗")
+         : theme.fg("warning", "⏳");
+}
+
+function formatComparisonColumns(runs: ReplicantRepoRunDetails[], theme: Theme, maxToolCalls?: number): string[][] {
+   return runs.map((run) => {
+      const lines = [`${statusIcon(run.status, theme)} ${theme.fg("accent", run.repo)}`];
+      if (run.subprocess) {
+         lines.push(
+            theme.fg("dim", `${run.phase ?? run.subprocess.phase} ${formatRunStats(run.subprocess)}`),
+         );
+      } else {
+         lines.push(theme.fg("dim", run.queuePosition ? `queued (position ${run.queuePosition})` : run.phase ?? "resolving"));
+      }
+      const policySummary = run.subprocess ? formatPolicySummary(run.subprocess) : undefined;
+      if (policySummary) lines.push(theme.fg("warning", policySummary));
+      const toolCallLines = formatToolCallLines(run.subprocess, theme, run.clonePath, run.referencePath);
+      const visibleToolCalls = maxToolCalls === undefined ? toolCallLines : toolCallLines.slice(-maxToolCalls);
+      if (toolCallLines.length > visibleToolCalls.length) {
+         lines.push(theme.fg("dim", `... ${toolCallLines.length - visibleToolCalls.length} earlier`));
+      }
+      lines.push(...visibleToolCalls);
+      if (run.errorMessage) lines.push(theme.fg("error", run.errorMessage));
+      return lines;
+   });
+}
+
+type ComparisonOptions = {
+   pi: ExtensionAPI;
+   ctx: ExtensionContext;
+   task: string;
+   cwd?: string;
+   agent: AgentDefinition;
+   model?: string;
+   maxTurns: number;
+   maxToolCalls: number;
+   format: ReplicantOutputFormat;
+   config: ReplicantConfig;
+   transcript?: boolean;
+   displayTask: string;
+   runs: ReplicantRepoRunDetails[];
+   signal?: AbortSignal;
+   scheduler: SubagentScheduler;
+   exportHolds: Array<() => void>;
+   emit: (statusText: string, details: ReplicantToolDetails) => void;
+   onSynthesisUpdate: (details: ReplicantSubprocessDetails) => void;
+   resolvers?: RepoResolver[];
+   runSubprocess?: typeof runReplicantSubprocess;
+};
+
+function acquireSubagentSlot(
+   scheduler: SubagentScheduler,
+   config: ReplicantConfig,
+   signal: AbortSignal | undefined,
+   onQueued: (position: number) => void,
+): Promise<() => void> {
+   return scheduler.acquire({ limit: config.concurrency.maxSubagents, signal, onQueued });
+}
+
+function repoLabel(repo: Pick<ResolvedRepo, "repo" | "ref">): string {
+   return repo.ref ? `${repo.repo}@${repo.ref}` : repo.repo;
+}
+
+function comparisonLabel(repos: string[]): string {
+   return repos.join(" vs ");
+}
+
+export async function runComparison(options: ComparisonOptions) {
+   const {
+      pi,
+      ctx,
+      task,
+      cwd,
+      agent,
+      model,
+      maxTurns,
+      maxToolCalls,
+      format,
+      config,
+      transcript,
+      displayTask,
+      runs,
+      signal,
+      scheduler,
+      exportHolds,
+      emit,
+      onSynthesisUpdate,
+      runSubprocess = runReplicantSubprocess,
+   } = options;
+
+   const emitRuns = (statusText: string, subprocess?: ReplicantSubprocessDetails) => {
+      emit(statusText, {
+         status: "running",
+         task: displayTask,
+         repo: comparisonLabel(runs.map((run) => run.repo)),
+         phase: subprocess?.phase ?? "booting",
+         subprocess,
+         comparison: runs.map((run) => ({ ...run })),
+      });
+   };
+
+   const resolved = new Map<ReplicantRepoRunDetails, ResolvedRepo>();
+   const resolvers = options.resolvers ?? createRepoResolvers(config, ctx.cwd);
+   for (const run of runs) {
+      const onStatus = (phase: string) => emitRuns(`replicant: ${run.repo} ${phase}`);
+      let repo: ResolvedRepo;
+      try {
+         const mapped = await resolveRepo({
+            pi,
+            ctx,
+            signal,
+            task,
+            repoHint: normalizeRepoHint(run.repo),
+            cwd,
+            onStatus,
+            resolvers,
+            selection: config.selection,
+         });
+         const fresh = await checkFreshness(pi, ctx, mapped, resolvers, config, cwd, signal, onStatus);
+         repo = await checkoutRef(pi, fresh, config, exportHolds, signal, onStatus);
+      } catch (error) {
+         if (signal?.aborted) throw error;
+         run.status = "error";
+         run.phase = "error";
+         run.errorMessage = error instanceof Error ? error.message : String(error);
+         emitRuns(`replicant: ${run.repo} could not be resolved`);
+         continue;
+      }
+      run.repo = repoLabel(repo);
+      run.qualifiedName = repo.qualifiedName;
+      run.clonePath = repo.clonePath;
+      run.referencePath = repo.referencePath;
+      run.resolvedFrom = repo.resolvedFrom;
+      run.resolver = repo.resolver;
+      run.freshness = repo.freshness;
+      run.ref = repo.ref;
+      run.commit = repo.commit;
+      run.sourceClonePath = repo.sourceClonePath;
+      run.phase = "booting";
+      resolved.set(run, repo);
+   }
+
+   const safeTools = toolsForAgent(agent);
+   const resolvedRepos = [...resolved.values()];
+   const comparedRepos = resolvedRepos.map(repoLabel);
+   const outcomes = await Promise.all(
+      runs.map(async (run): Promise<{ repo: string; finalText?: string; errorMessage?: string }> => {
+         const repo = resolved.get(run);
+         if (!repo) return { repo: run.repo, errorMessage: run.errorMessage };
+         try {
+            const release = await acquireSubagentSlot(scheduler, config, signal, (position) => {
+               run.queuePosition = position;
+               emitRuns(`${run.repo}: queued for a subagent slot (position ${position})`);
+            });
+            run.queuePosition = undefined;
+            const result = await runSubprocess({
+               cwd: repo.clonePath,
+               systemPrompt: buildSubprocessSystemPrompt(agent.systemPrompt, safeTools, maxTurns, maxToolCalls),
+               taskPrompt: buildTaskPrompt(task, repo, maxTurns, maxToolCalls, comparedRepos),
+               tools: safeTools,
+               model,
+               maxTurns,
+               maxToolCalls,
+               softTimeBudgetMs: softTimeBudgetMs(config),
+               signal,
+               scope: {
+                  allowedRoots: [repo.clonePath],
+                  allowedFiles: repo.referencePath ? [repo.referencePath] : [],
+               },
+               history: historySourceFor(repo),
+               sensitive: sensitivePolicy(config),
+               onUpdate: (statusText, details) => {
+                  run.phase = details.phase;
+                  run.subprocess = details;
+                  emitRuns(`${run.repo}: ${statusText}`);
+               },
+               repairPrompt: answerRepairPrompt(pi, "markdown", config, citationRootsFor([repo])),
+               transcript: transcriptOptions(config, transcript, repo.repo, {
+                  task,
+                  repo: repoLabel(repo),
+                  qualifiedName: repo.qualifiedName,
+                  clonePath: repo.clonePath,
+                  agent: agent.name,
+                  model,
+                  comparison: comparedRepos,
+               }),
+            }).finally(release);
+            run.status = "done";
+            run.phase = result.details.phase;
+            run.subprocess = result.details;
+            return { repo: run.repo, finalText: result.finalText };
+         } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            run.status = "error";
+            run.phase = run.subprocess?.phase ?? "error";
+            run.queuePosition = undefined;
+            run.errorMessage = message;
+            return { repo: run.repo, errorMessage: message };
+         }
+      }),
+   );
+
+   if (signal?.aborted) {
+      throw new Error("Replicant subagent was aborted.");
+   }
+
+   if (outcomes.every((outcome) => outcome.finalText === undefined)) {
+      throw new Error(
+         `All comparison runs failed: ${outcomes.map((outcome) => `${outcome.repo}: ${outcome.errorMessage}`).join("; ")}`,
+      );
+   }
+
+   emitRuns("replicant: comparing findings");
+   const release = await acquireSubagentSlot(scheduler, config, signal, (position) =>
+      emitRuns(`replicant: comparing findings (queued for a subagent slot, position ${position})`),
+   );
+   return runSubprocess({
+      cwd: resolvedRepos[0].clonePath,
+      systemPrompt: COMPARISON_SYSTEM_PROMPT,
+      taskPrompt: withOutputFormat(buildComparisonPrompt(task, outcomes), format, true),
+      tools: [],
+      model,
+      maxTurns: 1,
+      maxToolCalls: 1,
+      signal,
+      scope: {
+         allowedRoots: resolvedRepos.map((repo) => repo.clonePath),
+      },
+      onUpdate: (statusText, details) => {
+         onSynthesisUpdate(details);
+         emitRuns(`replicant: comparing findings (${statusText})`, details);
+      },
+      repairPrompt: structuredRepairPrompt(format),
+      transcript: transcriptOptions(config, transcript, comparisonLabel(comparedRepos), {
+         task,
+         comparison: comparedRepos,
+         model,
+         synthesis: true,
+      }),
+   }).finally(release);
+}
+
 
 export default function replicantExtension(pi: ExtensionAPI) {
-   pi.registerTool({
+   const sessions: SessionStore<ReplicantSessionContext> = createSessionStore();
+   const scheduler = createSubagentScheduler();
+
+   let hostUsage: ReplicantHostUsage = { ...emptyTokenUsage(), calls: 0 };
+
+   pi.on("session_shutdown", async () => {
+      sessions.clear();
+   });
+
+   pi.on("session_switch", async (_event, ctx) => {
+      sessions.clear();
+      hostUsage = { ...emptyTokenUsage(), calls: 0 };
+      if (ctx.hasUI) ctx.ui.setStatus("replicant", undefined);
+   });
+
+   const tool: ToolDefinition<typeof ReplicantParamsSchema, ReplicantToolDetails> = {
       name: "replicant",
       label: "Replicant",
       description:
@@ -224,7 +1010,28 @@ export default function replicantExtension(pi: ExtensionAPI) {
       async execute(_toolCallId, rawParams, signal, onUpdate, ctx) {
          let resolvedRepo: ResolvedRepo | undefined;
          let subprocessDetails: ReplicantSubprocessDetails | undefined;
+         let comparison: ReplicantRepoRunDetails[] | undefined;
+         let agent: AgentDefinition | undefined;
+         let agentDiagnostics: AgentDiagnostic[] | undefined;
+         let budget: ReplicantBudget | undefined;
          let displayTask: string | undefined;
+         let config: ReplicantConfig | undefined;
+         const exportHolds: Array<() => void> = [];
+
+         const finish = (result: AgentToolResult<ReplicantToolDetails> & { isError?: boolean }) => {
+            const usage = callUsage(result.details);
+            result.details.usage = usage;
+            if (!result.details.cache?.hit) result.details.transcriptPath = result.details.subprocess?.transcriptPath;
+            if (usage && config?.usage.sessionTotals) {
+               addTokenUsage(hostUsage, usage);
+               hostUsage.calls += 1;
+               result.details.hostUsage = { ...hostUsage };
+               if (ctx.hasUI) {
+                  ctx.ui.setStatus("replicant", `replicant: ${formatTokenUsage(hostUsage)} (${hostUsage.calls} calls)`);
+               }
+            }
+            return result;
+         };
 
          const emit = (statusText: string, details: ReplicantToolDetails) => {
             onUpdate?.({
@@ -234,38 +1041,261 @@ export default function replicantExtension(pi: ExtensionAPI) {
          };
 
          try {
-            const params = validateParams(rawParams as ReplicantParams);
+            config = await loadReplicantConfig({ cwd: ctx.cwd });
+            const params = validateParams(rawParams as ReplicantParams, config);
             displayTask = normalizeTaskForDisplay(params.task);
-            const maxTurns = MAX_TURNS;
-            const maxToolCalls = MAX_TOOL_CALLS;
+            const format: ReplicantOutputFormat = params.format ?? "markdown";
+
+            if (params.sessionId) {
+               const stored = sessions.acquire(params.sessionId);
+               let keep = true;
+               try {
+                  resolvedRepo = stored.context.repo;
+                  budget = stored.context.budget;
+                  const session: ReplicantSessionDetails = {
+                     id: stored.id,
+                     followUps: stored.followUps + 1,
+                     budget: config.sessions.budget,
+                     idleMinutes: stored.idleMs / 60_000,
+                  };
+                  const remainingToolCalls =
+                     config.sessions.budget === "shared"
+                        ? stored.live.maxToolCalls - stored.live.toolCallsUsed()
+                        : stored.live.maxToolCalls;
+                  if (remainingToolCalls <= 0) {
+                     keep = false;
+                     throw new ReplicantSessionError(
+                        `Replicant session ${stored.id} has used its shared tool call budget (${stored.live.maxToolCalls}).`,
+                        "Start a new exploration without sessionId, or set sessions.budget to \"refresh\".",
+                     );
+                  }
+                  const roots = citationRootsFor([resolvedRepo]);
+                  const release = await acquireSubagentSlot(scheduler, config, signal, (position) =>
+                     emit(`replicant: queued for a subagent slot (position ${position})`, {
+                        status: "running",
+                        agent: stored.context.agent,
+                        task: displayTask,
+                        repo: resolvedRepo?.repo,
+                        session,
+                        phase: "booting",
+                        queuePosition: position,
+                     }),
+                  );
+                  const runResult = await stored.live.continue({
+                     taskPrompt: withOutputFormat(buildFollowUpPrompt(params.task, stored.live.maxTurns, remainingToolCalls), format),
+                     budget: config.sessions.budget,
+                     softTimeBudgetMs: softTimeBudgetMs(config),
+                     signal,
+                     onUpdate: (statusText, details) => {
+                        subprocessDetails = details;
+                        emit(statusText, {
+                           status: "running",
+                           agent: stored.context.agent,
+                           task: displayTask,
+                           repo: resolvedRepo?.repo,
+                           clonePath: resolvedRepo?.clonePath,
+                           referencePath: resolvedRepo?.referencePath,
+                           ref: resolvedRepo?.ref,
+                           commit: resolvedRepo?.commit,
+                           session,
+                           phase: details.phase,
+                           subprocess: details,
+                        });
+                     },
+                     repairPrompt: answerRepairPrompt(pi, format, config, roots),
+                     transcript: transcriptOptions(config, params.transcript, resolvedRepo.repo, {
+                        task: params.task,
+                        repo: repoLabel(resolvedRepo),
+                        qualifiedName: resolvedRepo.qualifiedName,
+                        clonePath: resolvedRepo.clonePath,
+                        agent: stored.context.agent,
+                        sessionId: stored.id,
+                        followUp: session.followUps,
+                     }),
+                  }).finally(release);
+                  subprocessDetails = runResult.details;
+                  const output = finalizeOutput(runResult.finalText, format);
+                  const citations = await checkCitations(pi, output, runResult.finalText, format, config, roots);
+
+                  return finish({
+                     content: [{ type: "text", text: `${output.text}\n\n${sessionNote(session)}` }],
+                     details: {
+                        status: "done",
+                        agent: stored.context.agent,
+                        task: displayTask,
+                        repo: resolvedRepo.repo,
+                        qualifiedName: resolvedRepo.qualifiedName,
+                        scope: resolvedRepo.scope,
+                        clonePath: resolvedRepo.clonePath,
+                        referencePath: resolvedRepo.referencePath,
+                        resolvedFrom: resolvedRepo.resolvedFrom,
+                        resolver: resolvedRepo.resolver,
+                        freshness: resolvedRepo.freshness,
+                        ref: resolvedRepo.ref,
+                        commit: resolvedRepo.commit,
+                        sourceClonePath: resolvedRepo.sourceClonePath,
+                        budget,
+                        session,
+                        format,
+                        structured: output.structured,
+                        structuredError: output.structuredError,
+                        citations,
+                        phase: runResult.details.phase,
+                        subprocess: runResult.details,
+                     } satisfies ReplicantToolDetails,
+                  });
+               } finally {
+                  sessions.release(stored.id, keep);
+               }
+            }
+
+            const profiles = await loadAgentProfiles({ cwd: ctx.cwd });
+            agentDiagnostics = profiles.diagnostics.length > 0 ? profiles.diagnostics : undefined;
+            agent = selectAgent(profiles, params.agent);
+            budget = resolveBudget(params, agent, config);
+            const { maxTurns, maxToolCalls } = budget;
 
             const hostModel = modelFromContext(ctx);
-            const agent = DEFAULT_AGENT;
+
+            if (params.repos) {
+               comparison = params.repos.map((repo) => ({ status: "running", repo }));
+               const synthesis = await runComparison({
+                  pi,
+                  ctx,
+                  task: params.task,
+                  cwd: params.cwd,
+                  agent,
+                  model: modelForRecon(hostModel, agent),
+                  maxTurns,
+                  maxToolCalls,
+                  format,
+                  config,
+                  transcript: params.transcript,
+                  displayTask,
+                  runs: comparison,
+                  signal,
+                  scheduler,
+                  exportHolds,
+                  emit,
+                  onSynthesisUpdate: (details) => {
+                     subprocessDetails = details;
+                  },
+               });
+               subprocessDetails = synthesis.details;
+               const output = finalizeOutput(synthesis.finalText, format);
+               const citations = await checkCitations(pi, output, synthesis.finalText, format, config, citationRootsFor(comparison));
+
+               return finish({
+                  content: [{ type: "text", text: output.text }],
+                  details: {
+                     status: "done",
+                     agent: agent.name,
+                     agentDiagnostics,
+                     task: displayTask,
+                     repo: comparisonLabel(comparison.map((run) => run.repo)),
+                     budget,
+                     format,
+                     structured: output.structured,
+                     structuredError: output.structuredError,
+                     citations,
+                     phase: synthesis.details.phase,
+                     subprocess: synthesis.details,
+                     comparison,
+                  } satisfies ReplicantToolDetails,
+               });
+            }
+
             const normalizedRepoHint = normalizeRepoHint(params.repo);
 
-            emit("replicant: resolving Offworld map", {
+            emit(params.path ? "replicant: resolving local path" : "replicant: resolving Offworld map", {
                status: "running",
+               agent: agent.name,
+               budget,
                phase: "booting",
                task: displayTask,
             });
 
-            resolvedRepo = await resolveRepoWithOffworld({
-               pi,
-               ctx,
-               signal,
-               task: params.task,
-               repoHint: normalizedRepoHint,
-               cwd: params.cwd,
-               onStatus: (phase) => {
-                  emit(`replicant: ${phase}`, {
-                     status: "running",
-                     phase: "booting",
-                     repo: resolvedRepo?.repo,
-                     searchCandidates: resolvedRepo?.searchCandidates,
-                     task: displayTask,
+            const onResolveStatus = (phase: string) => {
+               emit(`replicant: ${phase}`, {
+                  status: "running",
+                  phase: "booting",
+                  repo: resolvedRepo?.repo,
+                  searchCandidates: resolvedRepo?.searchCandidates,
+                  hint: resolvedRepo?.hint,
+                  selection: resolvedRepo?.selection,
+                  task: displayTask,
+               });
+            };
+            const resolvers = createRepoResolvers(config, ctx.cwd);
+            resolvedRepo = params.path
+               ? await resolveLocalRepo({
+                  path: params.path,
+                  cwd: params.cwd ?? ctx.cwd,
+                  ref: params.ref,
+                  requireGit: config.local.requireGit,
+               })
+               : await resolveRepo({
+                  pi,
+                  ctx,
+                  signal,
+                  task: params.task,
+                  repoHint: normalizedRepoHint,
+                  ref: params.ref,
+                  cwd: params.cwd,
+                  onStatus: onResolveStatus,
+                  resolvers,
+                  selection: config.selection,
+               });
+            resolvedRepo = await checkFreshness(pi, ctx, resolvedRepo, resolvers, config, params.cwd, signal, onResolveStatus);
+            resolvedRepo = await checkoutRef(pi, resolvedRepo, config, exportHolds, signal, onResolveStatus);
+
+            const model = modelForRecon(hostModel, agent);
+            const cacheOptions = answerCacheOptions(config);
+            const commit =
+               cacheOptions && (resolvedRepo.resolvedFrom !== "local" || resolvedRepo.commit)
+                  ? resolvedRepo.commit ?? (await readHeadCommit(pi, resolvedRepo.clonePath, signal))
+                  : undefined;
+            const cacheKey = commit ? answerCacheKey({ commit, task: params.task, agent, model, format, budget }) : undefined;
+
+            if (cacheOptions && commit && cacheKey && !params.noCache && !params.keepSession) {
+               const cached = await readCachedAnswer(cacheOptions, cacheKey, commit);
+               if (cached) {
+                  subprocessDetails = cached.details;
+                  const output = finalizeOutput(cached.finalText, format);
+                  const citations = await checkCitations(pi, output, cached.finalText, format, config, citationRootsFor([resolvedRepo]));
+                  return finish({
+                     content: [{ type: "text", text: output.text }],
+                     details: {
+                        status: "done",
+                        agent: agent.name,
+                        agentDiagnostics,
+                        task: displayTask,
+                        repo: resolvedRepo.repo,
+                        qualifiedName: resolvedRepo.qualifiedName,
+                        scope: resolvedRepo.scope,
+                        clonePath: resolvedRepo.clonePath,
+                        referencePath: resolvedRepo.referencePath,
+                        resolvedFrom: resolvedRepo.resolvedFrom,
+                        resolver: resolvedRepo.resolver,
+                        freshness: resolvedRepo.freshness,
+                        ref: resolvedRepo.ref,
+                        commit: resolvedRepo.commit,
+                        sourceClonePath: resolvedRepo.sourceClonePath,
+                        searchCandidates: resolvedRepo.searchCandidates,
+                        hint: resolvedRepo.hint,
+                        selection: resolvedRepo.selection,
+                        budget,
+                        cache: { hit: true, commit, createdAt: cached.createdAt },
+                        format,
+                        structured: output.structured,
+                        structuredError: output.structuredError,
+                        citations,
+                        phase: cached.details.phase,
+                        subprocess: cached.details,
+                     } satisfies ReplicantToolDetails,
                   });
-               },
-            });
+               }
+            }
 
             const safeTools = toolsForAgent(agent);
 
@@ -274,16 +1304,40 @@ export default function replicantExtension(pi: ExtensionAPI) {
                allowedFiles: resolvedRepo.referencePath ? [resolvedRepo.referencePath] : [],
             };
 
+            const release = await acquireSubagentSlot(scheduler, config, signal, (position) =>
+               emit(`replicant: queued for a subagent slot (position ${position})`, {
+                  status: "running",
+                  agent: agent?.name,
+                  task: displayTask,
+                  repo: resolvedRepo?.repo,
+                  qualifiedName: resolvedRepo?.qualifiedName,
+                  clonePath: resolvedRepo?.clonePath,
+                  referencePath: resolvedRepo?.referencePath,
+                  resolver: resolvedRepo?.resolver,
+                  freshness: resolvedRepo?.freshness,
+                  ref: resolvedRepo?.ref,
+                  commit: resolvedRepo?.commit,
+                  searchCandidates: resolvedRepo?.searchCandidates,
+                  hint: resolvedRepo?.hint,
+                  selection: resolvedRepo?.selection,
+                  budget,
+                  phase: "booting",
+                  queuePosition: position,
+               }),
+            );
             const runResult = await runReplicantSubprocess({
                cwd: resolvedRepo.clonePath,
                systemPrompt: buildSubprocessSystemPrompt(agent.systemPrompt, safeTools, maxTurns, maxToolCalls),
-               taskPrompt: buildTaskPrompt(params.task, resolvedRepo, maxTurns, maxToolCalls),
+               taskPrompt: withOutputFormat(buildTaskPrompt(params.task, resolvedRepo, maxTurns, maxToolCalls), format),
                tools: safeTools,
-               model: modelForRecon(hostModel, agent.model),
+               model,
                maxTurns,
                maxToolCalls,
+               softTimeBudgetMs: softTimeBudgetMs(config),
                signal,
                scope: subprocessScope,
+               history: historySourceFor(resolvedRepo),
+               sensitive: sensitivePolicy(config),
                onUpdate: (statusText, details) => {
                   subprocessDetails = details;
                   emit(statusText, {
@@ -295,19 +1349,90 @@ export default function replicantExtension(pi: ExtensionAPI) {
                      clonePath: resolvedRepo?.clonePath,
                      referencePath: resolvedRepo?.referencePath,
                      resolvedFrom: resolvedRepo?.resolvedFrom,
+                     resolver: resolvedRepo?.resolver,
+                     freshness: resolvedRepo?.freshness,
+                     ref: resolvedRepo?.ref,
+                     commit: resolvedRepo?.commit,
                      searchCandidates: resolvedRepo?.searchCandidates,
+                     hint: resolvedRepo?.hint,
+                     selection: resolvedRepo?.selection,
                      phase: details.phase,
                      subprocess: details,
                   });
                },
-            });
+               repairPrompt: answerRepairPrompt(pi, format, config, citationRootsFor([resolvedRepo])),
+               keepAlive: params.keepSession,
+               transcript: transcriptOptions(config, params.transcript, resolvedRepo.repo, {
+                  task: params.task,
+                  repo: repoLabel(resolvedRepo),
+                  qualifiedName: resolvedRepo.qualifiedName,
+                  clonePath: resolvedRepo.clonePath,
+                  commit: resolvedRepo.commit,
+                  agent: agent.name,
+                  model,
+               }),
+            }).finally(release);
 
             subprocessDetails = runResult.details;
+            const output = finalizeOutput(runResult.finalText, format);
+            const citations = await checkCitations(
+               pi,
+               output,
+               runResult.finalText,
+               format,
+               config,
+               citationRootsFor([resolvedRepo]),
+            ).catch((error) => {
+               runResult.session?.dispose();
+               throw error;
+            });
+
+            let session: ReplicantSessionDetails | undefined;
+            let sessionNoteText: string | undefined;
+            if (runResult.session) {
+               const live = runResult.session;
+               const held = exportHolds.splice(0);
+               const stored = sessions.add(
+                  {
+                     ...live,
+                     dispose: () => {
+                        live.dispose();
+                        for (const release of held) release();
+                     },
+                  },
+                  { repo: resolvedRepo, agent: agent.name, budget },
+                  { idleMs: config.sessions.idleMinutes * 60_000, maxSessions: config.sessions.maxSessions },
+               );
+               if (stored) {
+                  session = { id: stored.id, followUps: 0, budget: config.sessions.budget, idleMinutes: config.sessions.idleMinutes };
+                  output.text = `${output.text}\n\n${sessionNote(session)}`;
+               } else {
+                  sessionNoteText = `Session not kept: ${config.sessions.maxSessions} replicant sessions are already answering follow-ups.`;
+               }
+            }
+
+            let cache: ReplicantCacheDetails | undefined;
+            if (cacheOptions && commit && cacheKey && !runResult.details.budgetExhausted) {
+               const stored = await writeCachedAnswer(cacheOptions, {
+                  key: cacheKey,
+                  repo: resolvedRepo.repo,
+                  clonePath: resolvedRepo.clonePath,
+                  commit,
+                  task: params.task,
+                  agent: agent.name,
+                  model,
+                  finalText: runResult.finalText,
+                  details: runResult.details,
+               }).catch(() => undefined);
+               if (stored) cache = { hit: false, commit, createdAt: stored.createdAt };
+            }
 
-            return {
-               content: [{ type: "text", text: runResult.finalText }],
+            return finish({
+               content: [{ type: "text", text: output.text }],
                details: {
                   status: "done",
+                  agent: agent.name,
+                  agentDiagnostics,
                   task: displayTask,
                   repo: resolvedRepo.repo,
                   qualifiedName: resolvedRepo.qualifiedName,
@@ -315,63 +1440,141 @@ export default function replicantExtension(pi: ExtensionAPI) {
                   clonePath: resolvedRepo.clonePath,
                   referencePath: resolvedRepo.referencePath,
                   resolvedFrom: resolvedRepo.resolvedFrom,
+                  resolver: resolvedRepo.resolver,
+                  freshness: resolvedRepo.freshness,
+                  ref: resolvedRepo.ref,
+                  commit: resolvedRepo.commit,
+                  sourceClonePath: resolvedRepo.sourceClonePath,
                   searchCandidates: resolvedRepo.searchCandidates,
+                  hint: resolvedRepo.hint,
+                  selection: resolvedRepo.selection,
+                  budget,
+                  cache,
+                  session,
+                  sessionNote: sessionNoteText,
+                  format,
+                  structured: output.structured,
+                  structuredError: output.structuredError,
+                  citations,
                   phase: runResult.details.phase,
                   subprocess: runResult.details,
                } satisfies ReplicantToolDetails,
-            };
+            });
          } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
-            const remediation = error instanceof ReplicantOffworldError ? error.remediation : undefined;
+            const remediation = errorRemediation(error);
 
-            return {
+            return finish({
                content: [{ type: "text", text: remediation ? `${message}\n\n${remediation}` : message }],
                details: {
                   status: "error",
+                  agent: agent?.name,
+                  agentDiagnostics,
                   task: displayTask,
-                  repo: resolvedRepo?.repo,
+                  repo: comparison ? comparisonLabel(comparison.map((run) => run.repo)) : resolvedRepo?.repo,
                   qualifiedName: resolvedRepo?.qualifiedName,
                   scope: resolvedRepo?.scope,
                   clonePath: resolvedRepo?.clonePath,
                   referencePath: resolvedRepo?.referencePath,
                   resolvedFrom: resolvedRepo?.resolvedFrom,
+                  resolver: resolvedRepo?.resolver,
+                  freshness: resolvedRepo?.freshness,
+                  ref: resolvedRepo?.ref,
+                  commit: resolvedRepo?.commit,
+                  sourceClonePath: resolvedRepo?.sourceClonePath,
                   searchCandidates: resolvedRepo?.searchCandidates,
+                  hint: resolvedRepo?.hint,
+                  selection: resolvedRepo?.selection,
+                  budget,
                   phase: subprocessDetails?.phase ?? "error",
                   subprocess: subprocessDetails,
+                  comparison,
                   remediation,
                } satisfies ReplicantToolDetails,
                isError: true,
-            };
+            });
+         } finally {
+            for (const release of exportHolds.splice(0)) release();
          }
       },
 
       renderCall(args, theme) {
-         const repo = typeof args.repo === "string" ? args.repo : "(auto)";
+         const repo = Array.isArray(args.repos)
+            ? comparisonLabel(args.repos)
+            : typeof args.repo === "string"
+               ? args.repo
+               : typeof args.path === "string"
+                  ? args.path
+                  : "(auto)";
          return new Text(`${theme.fg("toolTitle", theme.bold("replicant"))} ${theme.fg("accent", repo)}`, 0, 0);
       },
       renderResult(result, { expanded }, theme) {
          const details = result.details as ReplicantToolDetails | undefined;
          const content = result.content[0];
-         const text = content?.type === "text" ? content.text : "(no output)";
+         const rawText = content?.type === "text" ? content.text : "(no output)";
          if (!details) {
-            return new Text(text, 0, 0);
+            return new Text(rawText, 0, 0);
          }
-         const icon =
-            details.status === "done"
-               ? theme.fg("success", "✓")
-               : details.status === "error"
-                  ? theme.fg("error", "✗")
-                  : theme.fg("warning", "⏳");
-         const header = `${icon} ${theme.fg("toolTitle", theme.bold("going offworld to..."))} ${theme.fg("accent", details.repo ?? "(unknown repo)")}`;
+         const answerText = details.structured ? formatStructuredAnswerMarkdown(details.structured) : rawText;
+         const text = details.citations
+            ? annotateInvalidCitations(answerText, details.citations, (check) => ` [unverified: ${describeCitationCheck(check)}]`)
+            : answerText;
+         const icon = statusIcon(details.status, theme);
+         const cachedLabel = details.cache?.hit
+            ? ` ${theme.fg("muted", `(cached ${new Date(details.cache.createdAt).toISOString().slice(0, 16).replace("T", " ")})`)}`
+            : "";
+         const header = `${icon} ${theme.fg("toolTitle", theme.bold("going offworld to..."))} ${theme.fg("accent", details.repo ?? "(unknown repo)")}${cachedLabel}`;
          const task = normalizeTaskForDisplay(details.task);
          const taskCollapsed = toTaskPreview(task) || "(no task)";
          const taskExpanded = task || "(no task)";
          const paths = [
+            details.agent && details.agent !== DEFAULT_AGENT.name
+               ? `${theme.fg("muted", "agent:")} ${theme.fg("toolOutput", details.agent)}`
+               : undefined,
+            details.agentDiagnostics?.length
+               ? theme.fg("warning", `${details.agentDiagnostics.length} invalid agent profile(s): ${details.agentDiagnostics.map((diagnostic) => diagnostic.filePath).join(", ")}`)
+               : undefined,
+            details.resolver && details.resolver !== "offworld"
+               ? `${theme.fg("muted", "resolver:")} ${theme.fg("toolOutput", details.resolver)}`
+               : undefined,
+            details.hint && details.hint.source !== "param" && details.hint.source !== "search"
+               ? `${theme.fg("muted", "hint:")} ${theme.fg("toolOutput", formatRepoHint(details.hint))}`
+               : undefined,
+            details.selection?.method === "auto"
+               ? `${theme.fg("muted", "picked:")} ${theme.fg("toolOutput", details.selection.rationale)}`
+               : undefined,
+            details.freshness
+               ? `${theme.fg("muted", "fresh:")} ${theme.fg(details.freshness.stale ? "warning" : "toolOutput", formatFreshness(details.freshness))}`
+               : undefined,
             details.referencePath ? `${theme.fg("muted", "ref:")} ${theme.fg("toolOutput", details.referencePath)}` : undefined,
             details.clonePath ? `${theme.fg("muted", "path:")} ${theme.fg("toolOutput", details.clonePath)}` : undefined,
+            details.ref
+               ? `${theme.fg("muted", "at:")} ${theme.fg("toolOutput", `${details.ref}${details.commit ? ` (${details.commit.slice(0, 12)})` : ""}`)}`
+               : undefined,
+            details.session
+               ? `${theme.fg("muted", "session:")} ${theme.fg("toolOutput", details.session.followUps > 0 ? `${details.session.id} (follow-up ${details.session.followUps})` : details.session.id)}`
+               : undefined,
+            details.sessionNote ? theme.fg("warning", details.sessionNote) : undefined,
+            details.citations && details.citations.total > 0
+               ? `${theme.fg("muted", "citations:")} ${theme.fg(
+                  details.citations.invalid > 0 ? "warning" : "toolOutput",
+                  `${details.citations.valid}/${details.citations.total} verified`,
+               )}`
+               : undefined,
+            details.transcriptPath
+               ? `${theme.fg("muted", "transcript:")} ${theme.fg("toolOutput", details.transcriptPath)}`
+               : undefined,
+            details.comparison && details.usage
+               ? `${theme.fg("muted", "usage:")} ${theme.fg("toolOutput", formatTokenUsage(details.usage))}`
+               : undefined,
+            details.hostUsage
+               ? `${theme.fg("muted", "session usage:")} ${theme.fg("dim", `${formatTokenUsage(details.hostUsage)} over ${details.hostUsage.calls} calls`)}`
+               : undefined,
          ].filter(Boolean) as string[];
-         const toolCallLines = formatToolCallLines(details.subprocess, details.clonePath, details.referencePath);
-         const shouldRenderStatusText = details.status !== "running" || !details.subprocess;
+         const comparison = details.comparison;
+         const toolCallLines = comparison ? [] : formatToolCallLines(details.subprocess, theme, details.clonePath, details.referencePath);
+         const policySummary = details.subprocess ? formatPolicySummary(details.subprocess) : undefined;
+         const shouldRenderStatusText = details.status !== "running" || (!details.subprocess && !comparison);
          if (!expanded) {
             const previewLines = text.split("\n");
             const collapsedStatusMaxLines = details.status === "done" && details.subprocess ? 4 : 12;
@@ -379,25 +1582,36 @@ export default function replicantExtension(pi: ExtensionAPI) {
             const previewTruncated = previewLines.length > collapsedStatusMaxLines;
             const hideStatusPreview = details.status === "done" && details.subprocess;
             const collapsedLines = [header, theme.fg("dim", taskCollapsed), ...paths];
-            if (details.subprocess) {
-               collapsedLines.push("", theme.fg("dim", `tool calls=${details.subprocess.toolCalls} errors=${details.subprocess.toolErrors}`));
-               const visibleToolCalls = toolCallLines.slice(-8);
-               if (toolCallLines.length > visibleToolCalls.length) {
-                  collapsedLines.push(theme.fg("dim", `... ${toolCallLines.length - visibleToolCalls.length} earlier tool calls`));
-               }
-               for (const line of visibleToolCalls) collapsedLines.push(theme.fg("toolOutput", line));
-            }
+            const statusLines: string[] = [];
             if (shouldRenderStatusText) {
-               collapsedLines.push("");
+               statusLines.push("");
                if (hideStatusPreview) {
-                  collapsedLines.push(theme.fg("dim", "[ctrl+o to expand]"));
+                  statusLines.push(theme.fg("dim", "[ctrl+o to expand]"));
                } else {
-                  collapsedLines.push(theme.fg("toolOutput", preview));
+                  statusLines.push(theme.fg("toolOutput", preview));
                   if (previewTruncated) {
-                     collapsedLines.push(theme.fg("dim", "[ctrl+o to expand]"));
+                     statusLines.push(theme.fg("dim", "[ctrl+o to expand]"));
                   }
                }
             }
+            if (comparison) {
+               const container = new Container();
+               container.addChild(new Text(collapsedLines.join("\n"), 0, 0));
+               container.addChild(new Spacer(1));
+               container.addChild(new Columns(formatComparisonColumns(comparison, theme, 8)));
+               if (statusLines.length > 0) container.addChild(new Text(statusLines.join("\n"), 0, 0));
+               return container;
+            }
+            if (details.subprocess) {
+               collapsedLines.push("", theme.fg("dim", formatRunStats(details.subprocess)));
+               if (policySummary) collapsedLines.push(theme.fg("warning", policySummary));
+               const visibleToolCalls = toolCallLines.slice(-8);
+               if (toolCallLines.length > visibleToolCalls.length) {
+                  collapsedLines.push(theme.fg("dim", `... ${toolCallLines.length - visibleToolCalls.length} earlier tool calls`));
+               }
+               collapsedLines.push(...visibleToolCalls);
+            }
+            collapsedLines.push(...statusLines);
             return new Text(collapsedLines.join("\n"), 0, 0);
          }
          const mdTheme = getMarkdownTheme();
@@ -405,11 +1619,15 @@ export default function replicantExtension(pi: ExtensionAPI) {
          container.addChild(new Text(header, 0, 0));
          container.addChild(new Text(theme.fg("dim", taskExpanded), 0, 0));
          for (const line of paths) container.addChild(new Text(line, 0, 0));
-         if (details.subprocess) {
+         if (comparison) {
             container.addChild(new Spacer(1));
-            container.addChild(new Text(theme.fg("dim", `tool calls=${details.subprocess.toolCalls} errors=${details.subprocess.toolErrors}`), 0, 0));
+            container.addChild(new Columns(formatComparisonColumns(comparison, theme)));
+         } else if (details.subprocess) {
+            container.addChild(new Spacer(1));
+            container.addChild(new Text(theme.fg("dim", formatRunStats(details.subprocess)), 0, 0));
+            if (policySummary) container.addChild(new Text(theme.fg("warning", policySummary), 0, 0));
             for (const line of toolCallLines) {
-               container.addChild(new Text(theme.fg("toolOutput", line), 0, 0));
+               container.addChild(new Text(line, 0, 0));
             }
          }
 
@@ -419,5 +1637,9 @@ export default function replicantExtension(pi: ExtensionAPI) {
          }
          return container;
       },
-   });
+   };
+
+   pi.registerTool(tool);
+   registerReplicantCommand(pi, tool);
+   registerTranscriptsCommand(pi);
 }
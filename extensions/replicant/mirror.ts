@@ -0,0 +1,149 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { splitRepoHost } from "./hints";
+import {
+   ReplicantOffworldError,
+   findReferenceFile,
+   pathLooksLikeClone,
+   type RepoLocation,
+   type RepoResolver,
+   type RepoSearchMatch,
+} from "./offworld";
+
+export const DEFAULT_MIRROR_LAYOUT = "{owner}/{repo}";
+
+const MAX_MIRROR_MATCHES = 20;
+
+export interface MirrorResolverOptions {
+   roots: string[];
+   layout?: string;
+   cwd: string;
+}
+
+function expandRoot(root: string, cwd: string): string {
+   return path.resolve(cwd, root.replace(/^~(?=$|[\\/])/, os.homedir()));
+}
+
+function splitRepo(repo: string): { owner: string; repo: string } | undefined {
+   const slash = repo.lastIndexOf("/");
+   if (slash <= 0 || slash === repo.length - 1) return undefined;
+   return { owner: repo.slice(0, slash), repo: repo.slice(slash + 1) };
+}
+
+export function mirrorPathFor(root: string, layout: string, repo: string): string | undefined {
+   const parts = splitRepo(repo);
+   if (!parts || [parts.owner, parts.repo].some((part) => part.split("/").some((segment) => segment === ".." || segment === "."))) {
+      return undefined;
+   }
+   const relative = layout.replace(/\{owner\}/g, parts.owner).replace(/\{repo\}/g, parts.repo);
+   const resolved = path.resolve(root, relative);
+   return resolved.startsWith(`${path.resolve(root)}${path.sep}`) ? resolved : undefined;
+}
+
+function escapeRegExp(value: string): string {
+   return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+async function walkLayout(root: string, layout: string): Promise<Array<{ repo: string; dir: string }>> {
+   const segments = layout.split("/").filter(Boolean);
+   let frontier: Array<{ dir: string; captured: Record<string, string> }> = [{ dir: root, captured: {} }];
+   for (const segment of segments) {
+      const placeholders = [...segment.matchAll(/\{(owner|repo)\}/g)].map((match) => match[1]);
+      if (placeholders.length === 0) {
+         frontier = frontier.map((item) => ({ ...item, dir: path.join(item.dir, segment) }));
+         continue;
+      }
+      const pattern = new RegExp(
+         `^${segment
+            .split(/(\{(?:owner|repo)\})/)
+            .map((part) => (/^\{(?:owner|repo)\}$/.test(part) ? "([^/]+?)" : escapeRegExp(part)))
+            .join("")}$`,
+      );
+      const next: typeof frontier = [];
+      for (const item of frontier) {
+         const entries = await fs.readdir(item.dir, { withFileTypes: true }).catch(() => []);
+         for (const entry of entries) {
+            if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+            const match = entry.name.match(pattern);
+            if (!match) continue;
+            const captured = { ...item.captured };
+            placeholders.forEach((name, index) => {
+               captured[name] = captured[name] ? `${captured[name]}/${match[index + 1]}` : match[index + 1];
+            });
+            next.push({ dir: path.join(item.dir, entry.name), captured });
+         }
+      }
+      frontier = next;
+   }
+   return frontier
+      .filter((item) => item.captured.owner && item.captured.repo)
+      .map((item) => ({ repo: `${item.captured.owner}/${item.captured.repo}`, dir: item.dir }));
+}
+
+function scoreMatch(repo: string, terms: string[]): number {
+   const lower = repo.toLowerCase();
+   const name = lower.slice(lower.lastIndexOf("/") + 1);
+   let score = 0;
+   for (const term of terms) {
+      if (term === lower) score += 20;
+      else if (term === name) score += 10;
+      else if (lower.includes(term)) score += 1;
+   }
+   return score;
+}
+
+export function createMirrorResolver(options: MirrorResolverOptions): RepoResolver {
+   const layout = options.layout ?? DEFAULT_MIRROR_LAYOUT;
+   const roots = options.roots.map((root) => expandRoot(root, options.cwd));
+
+   const toLocation = async (repo: string, dir: string, root: string): Promise<RepoLocation> => ({
+      repo,
+      qualifiedName: `mirror:${repo}`,
+      scope: `mirror:${root}`,
+      clonePath: (await pathLooksLikeClone(dir)) ? dir : undefined,
+      referencePath: await findReferenceFile(dir),
+   });
+
+   return {
+      name: "mirror",
+
+      async resolve(repo, context) {
+         context.onStatus?.("resolving-mirror");
+         for (const root of roots) {
+            const dir = mirrorPathFor(root, layout, splitRepoHost(repo).path);
+            if (!dir) continue;
+            const stat = await fs.stat(dir).catch(() => undefined);
+            if (stat?.isDirectory()) return toLocation(repo, dir, root);
+         }
+         return undefined;
+      },
+
+      async search(term) {
+         const terms = term
+            .toLowerCase()
+            .split(/[^a-z0-9_./-]+/)
+            .map((part) => part.replace(/^[./-]+|[./-]+$/g, ""))
+            .filter((part) => part.length >= 2);
+         const matches: RepoSearchMatch[] = [];
+         for (const root of roots) {
+            for (const entry of await walkLayout(root, layout)) {
+               const score = scoreMatch(entry.repo, terms);
+               if (score > 0 && !matches.some((match) => match.repo === entry.repo)) {
+                  matches.push({ repo: entry.repo, score, resolver: "mirror" });
+               }
+            }
+         }
+         return matches.sort((a, b) => b.score - a.score).slice(0, MAX_MIRROR_MATCHES);
+      },
+
+      async ensureClone(location) {
+         throw new ReplicantOffworldError(
+            `Mirror directory for ${location.repo} is not a git clone.`,
+            "missing_assets",
+            `Check the mirror under ${location.scope.replace(/^mirror:/, "")} (layout ${layout}).`,
+            { repo: location.repo },
+         );
+      },
+   };
+}
@@ -1,6 +1,23 @@
 import * as fs from "node:fs/promises";
+import * as os from "node:os";
 import * as path from "node:path";
 import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import type { StreamingExec } from "./exec";
+import type { CloneFreshness } from "./freshness";
+import {
+   DEFAULT_REPO_HOST,
+   MIN_PACKAGE_HINT_CONFIDENCE,
+   extractSearchTerms,
+   extractTaskHints,
+   formatRepoSlug,
+   qualifyRepo,
+   scorePackageMatches,
+   splitRepoHost,
+   type RepoHint,
+   type TaskHint,
+} from "./hints";
+import { createSingleFlight } from "./scheduler";
+import { splitRepoRef } from "./schemas";
 
 type OwExecResult = {
    stdout: string;
@@ -34,18 +51,114 @@ export interface ResolveRepoOptions {
    signal?: AbortSignal;
    task: string;
    repoHint?: string;
+   ref?: string;
    cwd?: string;
    onStatus?: (status: string) => void;
+   resolvers?: RepoResolver[];
+   selection?: RepoSelectionPolicy;
+}
+
+export interface OwTimeouts {
+   versionMs: number;
+   mapMs: number;
+   pullMs: number;
+}
+
+export const DEFAULT_OW_TIMEOUTS: OwTimeouts = {
+   versionMs: 30_000,
+   mapMs: 60_000,
+   pullMs: 20 * 60 * 1000,
+};
+
+export interface OffworldResolverOptions {
+   timeouts?: Partial<OwTimeouts>;
+   /** Runs `ow pull` with streamed output; without it pulls go through pi.exec and report only at exit. */
+   exec?: StreamingExec;
+}
+
+export interface RepoSelectionPolicy {
+   autoSelect: boolean;
+   minScoreMargin: number;
+   minScoreRatio: number;
+   matchTaskName: boolean;
+}
+
+export interface RepoSelection {
+   repo: string;
+   method: "only-match" | "auto" | "user";
+   rationale: string;
+   recommended?: string;
+}
+
+export interface RepoRecommendation {
+   candidate?: RepoSearchMatch;
+   rationale: string;
+}
+
+export interface RepoLocation {
+   repo: string;
+   qualifiedName: string;
+   host?: string;
+   scope: string;
+   clonePath?: string;
+   referencePath?: string;
+}
+
+export interface SearchTermHit {
+   term: string;
+   score: number;
+}
+
+export interface RepoSearchCandidate {
+   repo: string;
+   score: number;
+   hits?: SearchTermHit[];
+}
+
+export interface RepoSearchMatch extends RepoSearchCandidate {
+   resolver?: string;
+   keywords?: string[];
+}
+
+export interface RepoResolverContext {
+   pi: ExtensionAPI;
+   ctx: ExtensionContext;
+   signal?: AbortSignal;
+   cwd?: string;
+   onStatus?: (status: string) => void;
+}
+
+export interface RepoResolver {
+   readonly name: string;
+   resolve(repo: string, context: RepoResolverContext): Promise<RepoLocation | undefined>;
+   search(term: string, context: RepoResolverContext): Promise<RepoSearchMatch[]>;
+   ensureClone(location: RepoLocation, context: RepoResolverContext): Promise<RepoLocation>;
+   refresh?(location: RepoLocation, context: RepoResolverContext): Promise<void>;
+}
+
+export interface ResolveLocalRepoOptions {
+   path: string;
+   cwd: string;
+   ref?: string;
+   requireGit?: boolean;
 }
 
 export interface ResolvedRepo {
    repo: string;
    qualifiedName: string;
+   host?: string;
    scope: string;
    clonePath: string;
    referencePath: string;
-   resolvedFrom: "existing" | "pulled";
-   searchCandidates: Array<{ repo: string; score: number }>;
+   resolvedFrom: "existing" | "pulled" | "local";
+   resolver: string;
+   searchCandidates: RepoSearchCandidate[];
+   hint?: RepoHint;
+   selection?: RepoSelection;
+   ref?: string;
+   commit?: string;
+   sourceClonePath?: string;
+   freshness?: CloneFreshness;
 }
 
 export class ReplicantOffworldError extends Error {
@@ -58,7 +171,9 @@ export class ReplicantOffworldError extends Error {
          | "missing_assets"
          | "pull_rejected"
          | "pull_failed"
-         | "invalid_map",
+         | "pull_timeout"
+         | "invalid_map"
+         | "path_invalid",
       readonly remediation?: string,
       readonly details?: Record<string, unknown>,
    ) {
@@ -93,7 +208,7 @@ async function pathIsFile(path: string): Promise<boolean> {
    }
 }
 
-async function pathLooksLikeClone(repoPath: string): Promise<boolean> {
+export async function pathLooksLikeClone(repoPath: string): Promise<boolean> {
    if (!(await pathIsDir(repoPath))) return false;
    const gitMetadataPath = path.join(repoPath, ".git");
    try {
@@ -105,19 +220,67 @@ async function pathLooksLikeClone(repoPath: string): Promise<boolean> {
 }
 
 
-function toRepoSlug(entry: Pick<MapShowJson, "qualifiedName"> | Pick<MapSearchJson[number], "fullName">): string {
-   if ("fullName" in entry) return entry.fullName;
-   const q = entry.qualifiedName ?? "";
-   if (q.includes(":")) return q.split(":")[1] ?? q;
-   return q;
+function toRepoSlug(qualifiedName: string | undefined, fallback: string): string {
+   if (!qualifiedName?.includes(":")) return qualifiedName || fallback;
+   return formatRepoSlug(splitRepoHost(qualifiedName));
 }
 
-async function runOw(
-   pi: ExtensionAPI,
-   args: string[],
-   signal?: AbortSignal,
-   cwd?: string,
-): Promise<OwExecResult> {
+const LOCAL_REFERENCE_FILES = ["AGENTS.md", "README.md", "README.mdx", "README.rst", "README.txt", "README"];
+
+export async function findReferenceFile(dir: string): Promise<string | undefined> {
+   for (const name of LOCAL_REFERENCE_FILES) {
+      const candidate = path.join(dir, name);
+      if (await pathIsFile(candidate)) return candidate;
+   }
+   return undefined;
+}
+
+export async function resolveLocalRepo(options: ResolveLocalRepoOptions): Promise<ResolvedRepo> {
+   const expanded = options.path.replace(/^~(?=$|[\\/])/, os.homedir());
+   const clonePath = path.resolve(options.cwd, expanded);
+   if (!(await pathIsDir(clonePath))) {
+      throw new ReplicantOffworldError(
+         `Local path is not a directory: ${clonePath}`,
+         "path_invalid",
+         "Pass an existing directory as `path` (absolute, relative to the working directory, or starting with ~).",
+         { path: options.path },
+      );
+   }
+
+   const isClone = await pathLooksLikeClone(clonePath);
+   if (!isClone && (options.requireGit || options.ref)) {
+      throw new ReplicantOffworldError(
+         `Local path is not a git clone: ${clonePath}`,
+         "path_invalid",
+         options.ref ? "Exploring a `ref` needs a git clone; omit `ref` to explore the directory as-is." : "Point `path` at the root of a git clone.",
+         { path: options.path },
+      );
+   }
+
+   const referencePath = (await findReferenceFile(clonePath)) ?? "";
+
+   return {
+      repo: path.basename(clonePath),
+      qualifiedName: `local:${clonePath}`,
+      scope: "local",
+      clonePath,
+      referencePath,
+      resolvedFrom: "local",
+      resolver: "local",
+      searchCandidates: [],
+      ref: options.ref,
+   };
+}
+
+interface OwRunOptions {
+   signal?: AbortSignal;
+   cwd?: string;
+   timeoutMs: number;
+   exec?: StreamingExec;
+   onOutput?: (chunk: string) => void;
+}
+
+async function runOw(pi: ExtensionAPI, args: string[], options: OwRunOptions): Promise<OwExecResult> {
    const allowlist = new Set([
       "--version",
       "map show",
@@ -130,21 +293,48 @@ async function runOw(
       throw new ReplicantOffworldError(`Disallowed ow command: ow ${args.join(" ")}`, "invalid_map");
    }
 
+   const { signal, cwd, timeoutMs: timeout, exec, onOutput } = options;
+   if (exec) return exec("ow", args, { signal, timeout, cwd, onOutput });
    const result = (await pi.exec("ow", args, {
       signal,
-      timeout: 20 * 60 * 1000,
+      timeout,
       cwd,
    })) as OwExecResult;
 
    return result;
 }
 
+function timedOut(result: OwExecResult, signal?: AbortSignal): boolean {
+   return Boolean(result.killed) && !signal?.aborted;
+}
+
+function formatSeconds(ms: number): string {
+   return `${Math.round(ms / 1000)}s`;
+}
+
+const inflight = createSingleFlight();
+
+function flightKey(command: string, cwd?: string, repo = ""): string {
+   return `${command}\0${cwd ?? ""}\0${repo}`;
+}
+
 async function ensureOwInstalled(
    pi: ExtensionAPI,
    signal?: AbortSignal,
    cwd?: string,
+   timeouts: OwTimeouts = DEFAULT_OW_TIMEOUTS,
 ) {
-   const result = await runOw(pi, ["--version"], signal, cwd);
+   const result = await inflight.run(flightKey("--version", cwd), signal, (shared) =>
+      runOw(pi, ["--version"], { signal: shared, cwd, timeoutMs: timeouts.versionMs }),
+   );
+   if (timedOut(result, signal)) {
+      throw new ReplicantOffworldError(
+         `Offworld CLI (\`ow --version\`) did not answer within ${formatSeconds(timeouts.versionMs)}.`,
+         "ow_missing",
+         "Check the Offworld installation, or raise offworld.versionTimeoutSeconds in the replicant config.",
+         { stderr: result.stderr, stdout: result.stdout, code: result.code },
+      );
+   }
    if (result.code !== 0) {
       throw new ReplicantOffworldError(
          "Offworld CLI (`ow`) is not available.",
@@ -155,13 +345,26 @@ async function ensureOwInstalled(
    }
 }
 
+function mapTimeoutError(command: string, timeoutMs: number, result: OwExecResult): ReplicantOffworldError {
+   return new ReplicantOffworldError(
+      `${command} timed out after ${formatSeconds(timeoutMs)}.`,
+      "invalid_map",
+      "Raise offworld.mapTimeoutSeconds in the replicant config.",
+      { stderr: result.stderr, stdout: result.stdout, code: result.code },
+   );
+}
+
 async function mapShow(
    pi: ExtensionAPI,
    repo: string,
    signal?: AbortSignal,
    cwd?: string,
+   timeouts: OwTimeouts = DEFAULT_OW_TIMEOUTS,
 ): Promise<MapShowJson> {
-   const result = await runOw(pi, ["map", "show", repo, "--json"], signal, cwd);
+   const result = await inflight.run(flightKey("map show", cwd, repo), signal, (shared) =>
+      runOw(pi, ["map", "show", repo, "--json"], { signal: shared, cwd, timeoutMs: timeouts.mapMs }),
+   );
+   if (timedOut(result, signal)) throw mapTimeoutError(`ow map show ${repo} --json`, timeouts.mapMs, result);
    if (result.code !== 0) {
       throw new ReplicantOffworldError(
          `Failed to run ow map show ${repo} --json.`,
@@ -178,8 +381,10 @@ async function mapSearch(
    term: string,
    signal?: AbortSignal,
    cwd?: string,
+   timeouts: OwTimeouts = DEFAULT_OW_TIMEOUTS,
 ): Promise<MapSearchJson> {
-   const result = await runOw(pi, ["map", "search", term, "--json"], signal, cwd);
+   const result = await runOw(pi, ["map", "search", term, "--json"], { signal, cwd, timeoutMs: timeouts.mapMs });
+   if (timedOut(result, signal)) throw mapTimeoutError(`ow map search ${term} --json`, timeouts.mapMs, result);
    if (result.code !== 0) {
       throw new ReplicantOffworldError(
          `Failed to run ow map search ${term} --json.`,
@@ -191,6 +396,16 @@ async function mapSearch(
    return parseJson<MapSearchJson>(result.stdout, `ow map search ${term} --json`);
 }
 
+export async function searchMappedRepos(
+   pi: ExtensionAPI,
+   term: string,
+   signal?: AbortSignal,
+   cwd?: string,
+): Promise<Array<{ repo: string; score: number }>> {
+   const matches = await mapSearch(pi, term, signal, cwd);
+   return matches.map((match) => ({ repo: toRepoSlug(match.qualifiedName, match.fullName), score: match.score }));
+}
+
 function extractSearchTerm(task: string): string {
    return task
       .trim()
@@ -198,55 +413,86 @@ function extractSearchTerm(task: string): string {
       .slice(0, 120);
 }
 
-const PATH_LIKE_OWNER_DENYLIST = new Set([
-   "src",
-   "docs",
-   "doc",
-   "packages",
-   "package",
-   "examples",
-   "example",
-   "test",
-   "tests",
-   "lib",
-   "dist",
-   "scripts",
-   "extensions",
-   "apps",
-   "app",
-   "server",
-   "client",
-]);
-
-function extractRepoHintFromTask(task: string): string | undefined {
-   const githubMatch = task.match(/(?:https?:\/\/github\.com\/|github\.com[:/])([A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+)(?:\.git)?/i);
-   if (githubMatch?.[1]) return githubMatch[1];
-
-   const tokenPattern = /(?:^|[\s`"'([])([A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+)(?:\.git)?(?=$|[\s`"')\].,;:!?])/g;
-   for (const match of task.matchAll(tokenPattern)) {
-      const candidate = match[1];
-      if (!candidate) continue;
-      const [owner, repo] = candidate.split("/");
-      if (!owner || !repo) continue;
-      if (PATH_LIKE_OWNER_DENYLIST.has(owner.toLowerCase())) continue;
-      if (/\.(?:ts|tsx|js|jsx|mjs|cjs|json|md|txt|yaml|yml|toml|rs|go|py|java|kt|swift|css|scss|html)$/i.test(repo)) continue;
-      return candidate;
+export function taskSearchTerms(task: string): string[] {
+   const extracted = extractSearchTerms(task);
+   return extracted.length > 0 ? extracted : [extractSearchTerm(task)];
+}
+
+function escapeRegExp(value: string): string {
+   return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function mentionsRepo(task: string, repo: string): "path" | "name" | undefined {
+   const { path: repoPath } = splitRepoHost(repo);
+   const mentions = (value: string) => new RegExp(`(?<![\\w.-])${escapeRegExp(value)}(?![\\w-]|\\.\\w)`, "i").test(task);
+   if (mentions(repoPath)) return "path";
+   return mentions(repoPath.slice(repoPath.lastIndexOf("/") + 1)) ? "name" : undefined;
+}
+
+export function recommendCandidate(
+   candidates: RepoSearchMatch[],
+   task: string,
+   policy: RepoSelectionPolicy,
+): RepoRecommendation {
+   const ranked = [...candidates].sort((a, b) => b.score - a.score);
+   const [top, runnerUp] = ranked;
+   if (!runnerUp) return { candidate: top, rationale: "only search match" };
+
+   if (policy.matchTaskName) {
+      const mentioned = ranked.map((candidate) => ({ candidate, mention: mentionsRepo(task, candidate.repo) }));
+      const byPath = mentioned.filter((entry) => entry.mention === "path");
+      const named = byPath.length > 0 ? byPath : mentioned.filter((entry) => entry.mention === "name");
+      if (named.length === 1) {
+         return { candidate: named[0].candidate, rationale: `the task names ${named[0].candidate.repo}` };
+      }
    }
 
-   return undefined;
+   if (top.score <= 0 || top.score === runnerUp.score) {
+      return { rationale: `score ${top.score} ties ${runnerUp.repo} (${runnerUp.score})` };
+   }
+   const margin = Math.round(((top.score - runnerUp.score) / top.score) * 100) / 100;
+   if (margin >= policy.minScoreMargin) {
+      return {
+         candidate: top,
+         rationale: `score ${top.score} leads ${runnerUp.repo} (${runnerUp.score}) by ${margin} of its score (margin ${policy.minScoreMargin})`,
+      };
+   }
+   const ratio = runnerUp.score > 0 ? Math.round((top.score / runnerUp.score) * 100) / 100 : Infinity;
+   if (ratio >= policy.minScoreRatio) {
+      return {
+         candidate: top,
+         rationale: `score ${top.score} is ${ratio}x ${runnerUp.repo} (${runnerUp.score}) (ratio ${policy.minScoreRatio})`,
+      };
+   }
+   return {
+      rationale: `score ${top.score} vs ${runnerUp.repo} (${runnerUp.score}): margin ${margin} < ${policy.minScoreMargin}, ratio ${ratio} < ${policy.minScoreRatio}`,
+   };
 }
 
+function candidateLabel(candidate: RepoSearchMatch, recommended: boolean): string {
+   const terms = candidate.hits && candidate.hits.length > 1 ? `; ${candidate.hits.map((hit) => hit.term).join(", ")}` : "";
+   return `${candidate.repo} (score ${candidate.score}${terms})${recommended ? " [recommended]" : ""}`;
+}
 
 async function selectCandidate(
    ctx: ExtensionContext,
-   candidates: MapSearchJson,
-): Promise<MapSearchJson[number]> {
-   if (candidates.length === 1) return candidates[0];
+   candidates: RepoSearchMatch[],
+   task: string,
+   policy?: RepoSelectionPolicy,
+): Promise<{ candidate: RepoSearchMatch; selection: RepoSelection }> {
+   if (candidates.length === 1) {
+      return { candidate: candidates[0], selection: { repo: candidates[0].repo, method: "only-match", rationale: "only search match" } };
+   }
    const max = Math.min(6, candidates.length);
    const top = candidates.slice(0, max);
+   const recommendation = policy ? recommendCandidate(top, task, policy) : undefined;
+   const recommended = recommendation?.candidate;
    if (ctx.hasUI) {
-      const options = top.map((c) => ({
-         label: `${c.fullName} (score ${c.score})`,
+      const options = [
+         ...top.filter((c) => c === recommended),
+         ...top.filter((c) => c !== recommended),
+      ].map((c) => ({
+         label: candidateLabel(c, c === recommended),
          candidate: c,
       }));
       const picked = await ctx.ui.select(
@@ -260,34 +506,44 @@ async function selectCandidate(
             "Re-run with an explicit `repo` value.",
          );
       }
-      const pickedOption = options.find((option) => option.label === picked);
-      if (pickedOption) return pickedOption.candidate;
-      const pickedRepo = picked.replace(/\s+\(score [^)]+\)\s*$/, "");
-      const matched = top.find((c) => c.fullName === pickedRepo);
-      if (matched) return matched;
+      const pickedRepo = picked.replace(/\s+\(score [^)]+\)(?:\s+\[recommended\])?\s*$/, "");
+      const matched = options.find((option) => option.label === picked)?.candidate ?? top.find((c) => c.repo === pickedRepo);
+      if (matched) {
+         const rationale = !recommended
+            ? `picked from ${top.length} matches`
+            : matched === recommended
+               ? `picked the recommended match (${recommendation.rationale})`
+               : `picked over the recommended ${recommended.repo}`;
+         return { candidate: matched, selection: { repo: matched.repo, method: "user", rationale, recommended: recommended?.repo } };
+      }
       throw new ReplicantOffworldError(
          "Repository selection did not match available candidates.",
          "repo_ambiguous",
          "Re-run with an explicit `repo` value.",
          {
             picked,
-            candidates: top.map((c) => ({ repo: c.fullName, score: c.score })),
+            candidates: top.map((c) => ({ repo: c.repo, score: c.score })),
          },
       );
    }
 
+   if (policy?.autoSelect && recommended) {
+      return { candidate: recommended, selection: { repo: recommended.repo, method: "auto", rationale: recommendation.rationale } };
+   }
    throw new ReplicantOffworldError(
-      "Multiple Offworld map matches found; repository is ambiguous in non-interactive mode.",
+      `Multiple repository matches found; repository is ambiguous in non-interactive mode${recommendation ? ` (${recommendation.rationale})` : ""}.`,
       "repo_ambiguous",
       "Re-run with an explicit `repo` value (e.g. `repo: \"owner/repo\"`).",
       {
-         candidates: top.map((c) => ({ repo: c.fullName, score: c.score })),
+         candidates: top.map((c) => ({ repo: c.repo, score: c.score })),
+         ...(recommendation && { rationale: recommendation.rationale }),
       },
    );
 }
 
 function buildPullArgs(repo: string): string[] {
-   return ["pull", repo, "--clone-only"];
+   const { host, path } = splitRepoHost(repo);
+   return ["pull", host === DEFAULT_REPO_HOST ? path : `https://${host}/${path}`, "--clone-only"];
 }
 
 function formatOwCommand(args: string[]): string {
@@ -295,15 +551,61 @@ function formatOwCommand(args: string[]): string {
 }
 
 
+export function parsePullProgress(line: string): string | undefined {
+   const text = line.replace(/^remote:\s*/, "").trim();
+   if (!text) return undefined;
+   const percent = text.match(/^([A-Za-z][A-Za-z ]*?):\s+(\d{1,3})%(?:\s*\((\d+\/\d+)\))?/);
+   if (percent) return `${percent[1].toLowerCase()} ${percent[2]}%${percent[3] ? ` (${percent[3]})` : ""}`;
+   const count = text.match(/^([A-Za-z][A-Za-z ]*?objects):\s+(\d+)\b/);
+   if (count) return `${count[1].toLowerCase()} ${count[2]}`;
+   return text.length > 100 ? `${text.slice(0, 97)}...` : text;
+}
+
+function createProgressReader(onProgress: (progress: string) => void): (chunk: string) => void {
+   let pending = "";
+   let last: string | undefined;
+   return (chunk) => {
+      const lines = (pending + chunk).split(/\r\n|\r|\n/);
+      pending = lines.pop() ?? "";
+      for (const line of lines) {
+         const progress = parsePullProgress(line);
+         if (progress && progress !== last) {
+            last = progress;
+            onProgress(progress);
+         }
+      }
+   };
+}
+
+interface PullOptions {
+   timeouts: OwTimeouts;
+   exec?: StreamingExec;
+   onProgress?: (progress: string) => void;
+}
+
 async function pullRepo(
    pi: ExtensionAPI,
    repo: string,
-   signal?: AbortSignal,
-   cwd?: string,
+   signal: AbortSignal | undefined,
+   cwd: string | undefined,
+   options: PullOptions,
 ): Promise<void> {
    const pullArgs = buildPullArgs(repo);
    const pullCommand = formatOwCommand(pullArgs);
-   const result = await runOw(pi, pullArgs, signal, cwd);
+   const { timeouts, exec, onProgress } = options;
+   const onOutput = exec && onProgress ? createProgressReader(onProgress) : undefined;
+   const result = await inflight.run(flightKey("pull", cwd, repo), signal, (shared) =>
+      runOw(pi, pullArgs, { signal: shared, cwd, timeoutMs: timeouts.pullMs, exec, onOutput }),
+   );
+   inflight.forget(flightKey("map show", cwd, repo));
+   if (timedOut(result, signal)) {
+      throw new ReplicantOffworldError(
+         `Pulling ${repo} timed out after ${formatSeconds(timeouts.pullMs)}.`,
+         "pull_timeout",
+         `Run manually: ${pullCommand}, or raise offworld.pullTimeoutSeconds in the replicant config.`,
+         { stdout: result.stdout, stderr: result.stderr, code: result.code, command: pullCommand, timeoutMs: timeouts.pullMs },
+      );
+   }
    if (result.code !== 0) {
       throw new ReplicantOffworldError(
          `Failed to pull ${repo}.`,
@@ -314,98 +616,273 @@ async function pullRepo(
    }
 }
 
-export async function resolveRepoWithOffworld(options: ResolveRepoOptions): Promise<ResolvedRepo> {
-   const { pi, ctx, signal, task, repoHint, cwd, onStatus } = options;
+async function toRepoLocation(show: MapShowJson, requested: string): Promise<RepoLocation> {
+   const repo = toRepoSlug(show.qualifiedName, requested);
+   const qualifiedName = show.qualifiedName ?? qualifyRepo(repo);
+   const clonePath = show.localPath ?? "";
+   const referencePath = show.referencePath ?? "";
+   const cloneOk = clonePath.length > 0 && (await pathLooksLikeClone(clonePath));
+   const referenceOk =
+      referencePath.length > 0 &&
+      !referencePath.endsWith("/") &&
+      !referencePath.endsWith("\\") &&
+      (await pathIsFile(referencePath));
+   return {
+      repo,
+      qualifiedName,
+      host: splitRepoHost(qualifiedName).host,
+      scope: show.scope ?? "unknown",
+      clonePath: cloneOk ? clonePath : undefined,
+      referencePath: referenceOk ? referencePath : undefined,
+   };
+}
+
+export function createOffworldResolver(options: OffworldResolverOptions = {}): RepoResolver {
+   const timeouts: OwTimeouts = { ...DEFAULT_OW_TIMEOUTS, ...options.timeouts };
+   let installed: Promise<void> | undefined;
+   const ensureInstalled = (context: RepoResolverContext) => {
+      if (!installed) {
+         context.onStatus?.("checking-offworld");
+         installed = ensureOwInstalled(context.pi, context.signal, context.cwd, timeouts);
+      }
+      return installed;
+   };
+   const pull = (repo: string, status: string, context: RepoResolverContext) => {
+      context.onStatus?.(status);
+      return pullRepo(context.pi, repo, context.signal, context.cwd, {
+         timeouts,
+         exec: options.exec,
+         onProgress: (progress) => context.onStatus?.(`${status}: ${progress}`),
+      });
+   };
+
+   return {
+      name: "offworld",
+
+      async resolve(repo, context) {
+         await ensureInstalled(context);
+         context.onStatus?.("resolving-map-entry");
+         const show = await mapShow(context.pi, repo, context.signal, context.cwd, timeouts);
+         return show.found ? toRepoLocation(show, repo) : undefined;
+      },
+
+      async search(term, context) {
+         await ensureInstalled(context);
+         const matches = await mapSearch(context.pi, term, context.signal, context.cwd, timeouts);
+         return matches.map((match) => ({
+            repo: toRepoSlug(match.qualifiedName, match.fullName),
+            score: match.score,
+            resolver: "offworld",
+            keywords: match.keywords,
+         }));
+      },
+
+      async ensureClone(location, context) {
+         const { pi, ctx, signal, cwd, onStatus } = context;
+         const pullCommand = formatOwCommand(buildPullArgs(location.repo));
+         if (ctx.hasUI) {
+            const ok = await ctx.ui.confirm(
+               "Pull repository with Offworld?",
+               `Replicant needs a local clone for ${location.repo}. Run ${pullCommand} now?`,
+            );
+            if (!ok) {
+               throw new ReplicantOffworldError(
+                  `Pull canceled for ${location.repo}.`,
+                  "pull_rejected",
+                  `Run manually: ${pullCommand}`,
+               );
+            }
+         }
+         await pull(location.repo, `pulling-repo (${pullCommand})`, context);
+         onStatus?.("re-resolving-map-entry");
+         const show = await mapShow(pi, location.repo, signal, cwd, timeouts);
+         const pulled = await toRepoLocation(show, location.repo);
+         if (!pulled.clonePath) {
+            throw new ReplicantOffworldError(
+               `Offworld map entry is incomplete after resolution for ${location.repo}. clone=false`,
+               "missing_assets",
+               `Run: ${pullCommand}`,
+               { map: show, cloneOk: false, referenceOk: Boolean(pulled.referencePath) },
+            );
+         }
+         return pulled;
+      },
+
+      async refresh(location, context) {
+         await pull(location.repo, `refreshing-repo (${formatOwCommand(buildPullArgs(location.repo))})`, context);
+      },
+   };
+}
+
+export async function searchRepos(
+   resolvers: RepoResolver[],
+   term: string,
+   context: RepoResolverContext,
+): Promise<RepoSearchMatch[]> {
+   const merged = new Map<string, RepoSearchMatch>();
+   let failure: unknown;
+   for (const resolver of resolvers) {
+      let matches: RepoSearchMatch[];
+      try {
+         matches = await resolver.search(term, context);
+      } catch (error) {
+         if (resolvers.length === 1) throw error;
+         failure ??= error;
+         continue;
+      }
+      for (const match of matches) {
+         if (!merged.has(match.repo)) merged.set(match.repo, { ...match, resolver: match.resolver ?? resolver.name });
+      }
+   }
+   if (merged.size === 0 && failure) throw failure;
+   return [...merged.values()];
+}
+
+export async function searchReposByTerms(
+   resolvers: RepoResolver[],
+   terms: string[],
+   context: RepoResolverContext,
+): Promise<RepoSearchMatch[]> {
+   const merged = new Map<string, RepoSearchMatch & { hits: SearchTermHit[] }>();
+   let failure: unknown;
+   for (const term of terms) {
+      let matches: RepoSearchMatch[];
+      try {
+         matches = await searchRepos(resolvers, term, context);
+      } catch (error) {
+         failure ??= error;
+         continue;
+      }
+      for (const match of matches) {
+         const existing = merged.get(match.repo);
+         if (existing) {
+            existing.score = Math.round((existing.score + match.score) * 1000) / 1000;
+            existing.hits.push({ term, score: match.score });
+         } else {
+            merged.set(match.repo, { ...match, hits: [{ term, score: match.score }] });
+         }
+      }
+   }
+   if (merged.size === 0 && failure) throw failure;
+   return [...merged.values()].sort((a, b) => b.score - a.score || b.hits.length - a.hits.length);
+}
 
-   onStatus?.("checking-offworld");
-   await ensureOwInstalled(pi, signal, cwd);
+function toSearchCandidate({ repo, score, hits }: RepoSearchMatch): RepoSearchCandidate {
+   return hits ? { repo, score, hits } : { repo, score };
+}
 
-   let selectedRepo = repoHint ?? extractRepoHintFromTask(task);
-   let searchCandidates: Array<{ repo: string; score: number }> = [];
+async function matchPackageHints(
+   resolvers: RepoResolver[],
+   hints: TaskHint[],
+   context: RepoResolverContext,
+): Promise<{ hint: RepoHint; match: RepoSearchMatch; candidates: RepoSearchMatch[] } | undefined> {
+   let best: { hint: RepoHint; match: RepoSearchMatch; candidates: RepoSearchMatch[] } | undefined;
+   for (const hint of hints) {
+      context.onStatus?.(`matching-package-hint (${hint.value})`);
+      const matches = await searchRepos(resolvers, hint.name, context).catch(() => [] as RepoSearchMatch[]);
+      const [top] = scorePackageMatches(hint, matches);
+      if (!top || top.confidence < MIN_PACKAGE_HINT_CONFIDENCE) continue;
+      if (best && (best.hint.confidence ?? 0) >= top.confidence) continue;
+      best = { hint: { value: hint.value, source: hint.source, confidence: top.confidence }, match: top, candidates: matches };
+   }
+   return best;
+}
+
+export async function resolveRepo(options: ResolveRepoOptions): Promise<ResolvedRepo> {
+   const { pi, ctx, signal, task, cwd, onStatus } = options;
+   const resolvers = options.resolvers?.length ? options.resolvers : [createOffworldResolver()];
+   const context: RepoResolverContext = { pi, ctx, signal, cwd, onStatus };
+
+   const taskHints = options.repoHint ? [] : extractTaskHints(task);
+   const repoHint = taskHints.find((candidate) => candidate.kind === "repo");
+   let hint: RepoHint | undefined = options.repoHint
+      ? { value: options.repoHint, source: "param", confidence: 1 }
+      : repoHint && { value: repoHint.value, source: repoHint.source, confidence: repoHint.certainty };
+   const split = splitRepoRef(hint?.value ?? "");
+   let selectedRepo = split.repo || undefined;
+   const ref = options.ref ?? split.ref;
+   let searchCandidates: RepoSearchCandidate[] = [];
+   let selection: RepoSelection | undefined;
+   let preferred: string | undefined;
+
+   const packageHints = taskHints.filter((candidate) => candidate.kind === "package" && candidate.source !== "cue");
+   if (!selectedRepo && packageHints.length > 0) {
+      const matched = await matchPackageHints(resolvers, packageHints, context);
+      if (matched) {
+         hint = matched.hint;
+         selectedRepo = matched.match.repo;
+         preferred = matched.match.resolver;
+         searchCandidates = matched.candidates.map(toSearchCandidate);
+      }
+   }
 
    if (!selectedRepo) {
       onStatus?.("searching-map");
-      const term = extractSearchTerm(task);
-      const matches = await mapSearch(pi, term, signal, cwd);
-      searchCandidates = matches.map((m) => ({ repo: m.fullName, score: m.score }));
+      const terms = taskSearchTerms(task);
+      const matches = await searchReposByTerms(resolvers, terms, context);
+      searchCandidates = matches.map(toSearchCandidate);
+      hint = { value: terms.join(", "), source: "search" };
 
       if (matches.length === 0) {
          throw new ReplicantOffworldError(
-            "No Offworld map matches found for this task.",
+            `No repository matches found for this task (resolvers: ${resolvers.map((r) => r.name).join(", ")}).`,
             "repo_unresolved",
             "Pull a repository first, e.g. `ow pull owner/repo --clone-only`, then retry with `repo: \"owner/repo\"`.",
          );
       }
 
-      const selected = await selectCandidate(ctx, matches);
-      selectedRepo = selected.fullName;
+      const selected = await selectCandidate(ctx, matches, task, options.selection);
+      selectedRepo = selected.candidate.repo;
+      preferred = selected.candidate.resolver;
+      selection = selected.selection;
    }
 
-   if (!selectedRepo) {
-      throw new ReplicantOffworldError("Repository could not be determined.", "repo_unresolved");
-   }
+   const ordered = [
+      ...resolvers.filter((resolver) => resolver.name === preferred),
+      ...resolvers.filter((resolver) => resolver.name !== preferred),
+   ];
+   let failure: unknown;
+   for (const resolver of ordered) {
+      let location: RepoLocation | undefined;
+      try {
+         location = await resolver.resolve(selectedRepo, context);
+      } catch (error) {
+         if (ordered.length === 1) throw error;
+         failure ??= error;
+         continue;
+      }
+      if (!location) continue;
 
-   onStatus?.("resolving-map-entry");
-   let show = await mapShow(pi, selectedRepo, signal, cwd);
-   if (!show.found) {
-      throw new ReplicantOffworldError(
-         `Repository not found in Offworld map: ${selectedRepo}`,
-         "repo_unresolved",
-         `Run: ow pull ${selectedRepo} --clone-only`,
-         { selectedRepo },
-      );
+      let resolvedFrom: ResolvedRepo["resolvedFrom"] = "existing";
+      if (!location.clonePath) {
+         location = await resolver.ensureClone(location, context);
+         resolvedFrom = "pulled";
+      }
+      return {
+         repo: location.repo,
+         qualifiedName: location.qualifiedName,
+         host: location.host,
+         scope: location.scope,
+         clonePath: location.clonePath ?? "",
+         referencePath: location.referencePath ?? "",
+         resolvedFrom,
+         resolver: resolver.name,
+         searchCandidates,
+         hint: hint && { ...hint, repo: location.repo },
+         selection,
+         ref,
+      };
    }
 
-   const effectiveRepo = toRepoSlug(show);
+   if (failure) throw failure;
+   throw new ReplicantOffworldError(
+      `Repository not found by ${ordered.map((resolver) => resolver.name).join(", ")}: ${selectedRepo}`,
+      "repo_unresolved",
+      `Run: ow pull ${selectedRepo} --clone-only`,
+      { selectedRepo },
+   );
+}
 
-   const hasClone = Boolean(show.localPath && (await pathLooksLikeClone(show.localPath)));
-   const missingAssets = !hasClone;
-   let resolvedFrom: "existing" | "pulled" = "existing";
-   if (missingAssets) {
-      if (ctx.hasUI) {
-         const ok = await ctx.ui.confirm(
-            "Pull repository with Offworld?",
-            `Replicant needs a local clone for ${effectiveRepo}. Run ow pull ${effectiveRepo} --clone-only now?`,
-         );
-         if (!ok) {
-            throw new ReplicantOffworldError(
-               `Pull canceled for ${effectiveRepo}.`,
-               "pull_rejected",
-               `Run manually: ow pull ${effectiveRepo} --clone-only`,
-            );
-         }
-      }
-      const missingAssetPullCommand = formatOwCommand(buildPullArgs(effectiveRepo));
-      onStatus?.(`pulling-repo (${missingAssetPullCommand})`);
-      await pullRepo(pi, effectiveRepo, signal, cwd);
-      resolvedFrom = "pulled";
-      onStatus?.("re-resolving-map-entry");
-      show = await mapShow(pi, effectiveRepo, signal, cwd);
-   }
-   const clonePath = show.localPath ?? "";
-   const referencePath = show.referencePath ?? "";
-   const cloneOk = clonePath.length > 0 && (await pathLooksLikeClone(clonePath));
-   const referenceOk =
-      referencePath.length > 0 &&
-      !referencePath.endsWith("/") &&
-      !referencePath.endsWith("\\") &&
-      (await pathIsFile(referencePath));
-   const resolvedReferencePath = referenceOk ? referencePath : "";
-   if (!cloneOk) {
-      throw new ReplicantOffworldError(
-         `Offworld map entry is incomplete after resolution for ${effectiveRepo}. clone=${cloneOk}`,
-         "missing_assets",
-         `Run: ow pull ${effectiveRepo} --clone-only`,
-         { map: show, cloneOk, referenceOk },
-      );
-   }
-   return {
-      repo: effectiveRepo,
-      qualifiedName: show.qualifiedName ?? `github.com:${effectiveRepo}`,
-      scope: show.scope ?? "unknown",
-      clonePath,
-      referencePath: resolvedReferencePath,
-      resolvedFrom,
-      searchCandidates,
-   };
+export async function resolveRepoWithOffworld(options: ResolveRepoOptions): Promise<ResolvedRepo> {
+   return resolveRepo({ ...options, resolvers: [createOffworldResolver()] });
 }
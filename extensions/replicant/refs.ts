@@ -0,0 +1,181 @@
+import { randomBytes } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { getAgentDir, type ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { runGit } from "./git";
+import { isValidGitRef } from "./schemas";
+
+const GIT_EXPORT_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface RefExportOptions {
+   pi: ExtensionAPI;
+   repo: string;
+   clonePath: string;
+   ref: string;
+   dir: string;
+   maxExports: number;
+   signal?: AbortSignal;
+   onStatus?: (status: string) => void;
+}
+
+export interface RefExport {
+   ref: string;
+   commit: string;
+   path: string;
+   reused: boolean;
+   release: () => void;
+}
+
+const heldExports = new Map<string, number>();
+
+export class ReplicantRefError extends Error {
+   constructor(
+      message: string,
+      readonly remediation?: string,
+   ) {
+      super(message);
+   }
+}
+
+export function holdRefExport(exportPath: string): () => void {
+   heldExports.set(exportPath, (heldExports.get(exportPath) ?? 0) + 1);
+   let released = false;
+   return () => {
+      if (released) return;
+      released = true;
+      const remaining = (heldExports.get(exportPath) ?? 1) - 1;
+      if (remaining > 0) heldExports.set(exportPath, remaining);
+      else heldExports.delete(exportPath);
+   };
+}
+
+export function defaultRefExportDir(): string {
+   return path.join(getAgentDir(), "replicant", "cache", "refs");
+}
+
+function repoDirName(repo: string): string {
+   return repo.replace(/[^A-Za-z0-9_.-]+/g, "__");
+}
+
+async function parseCommit(pi: ExtensionAPI, clonePath: string, rev: string, signal?: AbortSignal): Promise<string | undefined> {
+   const result = await runGit(pi, clonePath, ["rev-parse", "--verify", "--quiet", `${rev}^{commit}`], signal);
+   const commit = result.stdout.trim();
+   return result.code === 0 && /^[0-9a-f]{40,64}$/.test(commit) ? commit : undefined;
+}
+
+async function resolveRefCommit(options: RefExportOptions): Promise<string> {
+   const { pi, clonePath, ref, signal, onStatus } = options;
+   for (const rev of [ref, `origin/${ref}`]) {
+      const commit = await parseCommit(pi, clonePath, rev, signal);
+      if (commit) return commit;
+   }
+
+   onStatus?.(`fetching-ref (${ref})`);
+   const shallow = await runGit(pi, clonePath, ["rev-parse", "--is-shallow-repository"], signal);
+   const fetchArgs = ["fetch", "--quiet", "--no-tags", ...(shallow.stdout.trim() === "true" ? ["--depth", "1"] : []), "origin", ref];
+   const fetched = await runGit(pi, clonePath, fetchArgs, signal, GIT_EXPORT_TIMEOUT_MS);
+   const commit = fetched.code === 0 ? await parseCommit(pi, clonePath, "FETCH_HEAD", signal) : undefined;
+   if (!commit) {
+      throw new ReplicantRefError(
+         `Ref ${ref} was not found in ${options.repo}.`,
+         `Check the tag, branch or commit name, or fetch it manually: git -C ${clonePath} fetch origin ${ref}`,
+      );
+   }
+   return commit;
+}
+
+async function makeReadOnly(dir: string): Promise<void> {
+   for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+         await makeReadOnly(entryPath);
+      } else if (entry.isFile()) {
+         const { mode } = await fs.stat(entryPath);
+         await fs.chmod(entryPath, mode & ~0o222);
+      }
+   }
+}
+
+async function exportCommit(options: RefExportOptions, commit: string, target: string): Promise<void> {
+   const { pi, clonePath, signal } = options;
+   const tmpDir = `${target}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+   const archivePath = `${tmpDir}.tar`;
+   await fs.mkdir(tmpDir, { recursive: true });
+   try {
+      const archived = await runGit(
+         pi,
+         clonePath,
+         ["archive", "--format=tar", "-o", archivePath, commit],
+         signal,
+         GIT_EXPORT_TIMEOUT_MS,
+      );
+      if (archived.code !== 0) {
+         throw new ReplicantRefError(`Failed to export ${options.ref} from ${options.repo}: ${archived.stderr.trim()}`);
+      }
+      const extracted = await pi.exec("tar", ["-xf", archivePath, "-C", tmpDir], { signal, timeout: GIT_EXPORT_TIMEOUT_MS });
+      if (extracted.code !== 0) {
+         throw new ReplicantRefError(`Failed to unpack ${options.ref} of ${options.repo}: ${extracted.stderr.trim()}`);
+      }
+      await makeReadOnly(tmpDir);
+      try {
+         await fs.rename(tmpDir, target);
+      } catch (error) {
+         // A parallel call exported the same commit first.
+         if (!(await fs.stat(target).then((stat) => stat.isDirectory(), () => false))) throw error;
+         await fs.rm(tmpDir, { recursive: true, force: true });
+      }
+   } catch (error) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+      throw error;
+   } finally {
+      await fs.rm(archivePath, { force: true });
+   }
+}
+
+export async function pruneRefExports(dir: string, maxExports: number, keep?: string): Promise<void> {
+   const exports: Array<{ path: string; mtimeMs: number }> = [];
+   for (const repoDir of await fs.readdir(dir).catch(() => [] as string[])) {
+      for (const name of await fs.readdir(path.join(dir, repoDir)).catch(() => [] as string[])) {
+         if (!/^[0-9a-f]{40,64}$/.test(name)) continue;
+         const exportPath = path.join(dir, repoDir, name);
+         const stat = await fs.stat(exportPath).catch(() => undefined);
+         if (stat?.isDirectory()) exports.push({ path: exportPath, mtimeMs: stat.mtimeMs });
+      }
+   }
+
+   exports.sort((a, b) => b.mtimeMs - a.mtimeMs);
+   for (const [index, item] of exports.entries()) {
+      if (index >= maxExports && item.path !== keep && !heldExports.has(item.path)) {
+         await fs.rm(item.path, { recursive: true, force: true });
+      }
+   }
+}
+
+export async function materializeRef(options: RefExportOptions): Promise<RefExport> {
+   if (!isValidGitRef(options.ref)) {
+      throw new ReplicantRefError(`Invalid ref: ${options.ref}`, "Use a tag, branch or commit name such as v2.3.1 or main.");
+   }
+
+   options.onStatus?.(`resolving-ref (${options.ref})`);
+   const commit = await resolveRefCommit(options);
+   const target = path.join(options.dir, repoDirName(options.repo), commit);
+   const release = holdRefExport(target);
+   let reused = true;
+   try {
+      try {
+         await fs.access(target);
+         const now = new Date();
+         await fs.utimes(target, now, now);
+      } catch {
+         reused = false;
+         options.onStatus?.(`exporting-ref (${options.ref} @ ${commit.slice(0, 12)})`);
+         await fs.mkdir(path.dirname(target), { recursive: true });
+         await exportCommit(options, commit, target);
+      }
+      await pruneRefExports(options.dir, options.maxExports, target);
+   } catch (error) {
+      release();
+      throw error;
+   }
+   return { ref: options.ref, commit, path: target, reused, release };
+}
@@ -0,0 +1,20 @@
+import type { ReplicantConfig } from "./config";
+import { execStreaming } from "./exec";
+import { createMirrorResolver } from "./mirror";
+import { createOffworldResolver, type RepoResolver } from "./offworld";
+
+export function createRepoResolvers(config: ReplicantConfig, cwd: string): RepoResolver[] {
+   return config.resolvers.order.flatMap((name) => {
+      if (name === "offworld") {
+         const { versionTimeoutSeconds, mapTimeoutSeconds, pullTimeoutSeconds } = config.offworld;
+         return [
+            createOffworldResolver({
+               timeouts: { versionMs: versionTimeoutSeconds * 1000, mapMs: mapTimeoutSeconds * 1000, pullMs: pullTimeoutSeconds * 1000 },
+               exec: execStreaming,
+            }),
+         ];
+      }
+      if (config.resolvers.mirrorRoots.length === 0) return [];
+      return [createMirrorResolver({ roots: config.resolvers.mirrorRoots, layout: config.resolvers.mirrorLayout, cwd })];
+   });
+}
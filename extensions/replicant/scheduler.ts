@@ -0,0 +1,147 @@
+export class ReplicantQueueError extends Error {}
+
+export interface AcquireSlotOptions {
+   limit: number;
+   signal?: AbortSignal;
+   onQueued?: (position: number) => void;
+}
+
+export interface SubagentScheduler {
+   acquire(options: AcquireSlotOptions): Promise<() => void>;
+   active(): number;
+   queued(): number;
+}
+
+interface Waiter {
+   limit: number;
+   onQueued?: (position: number) => void;
+   start: () => void;
+}
+
+export function createSubagentScheduler(): SubagentScheduler {
+   const queue: Waiter[] = [];
+   let active = 0;
+
+   const releaser = () => {
+      let released = false;
+      return () => {
+         if (released) return;
+         released = true;
+         active -= 1;
+         drain();
+      };
+   };
+
+   const drain = () => {
+      let started = false;
+      while (queue.length > 0 && active < queue[0].limit) {
+         active += 1;
+         queue.shift()!.start();
+         started = true;
+      }
+      if (started) queue.forEach((waiter, index) => waiter.onQueued?.(index + 1));
+   };
+
+   return {
+      acquire({ limit, signal, onQueued }) {
+         if (signal?.aborted) return Promise.reject(canceledWhileQueued());
+         if (queue.length === 0 && active < limit) {
+            active += 1;
+            return Promise.resolve(releaser());
+         }
+
+         return new Promise<() => void>((resolve, reject) => {
+            const onAbort = () => {
+               const index = queue.indexOf(waiter);
+               if (index === -1) return;
+               queue.splice(index, 1);
+               queue.slice(index).forEach((other, offset) => other.onQueued?.(index + offset + 1));
+               reject(canceledWhileQueued());
+            };
+            const waiter: Waiter = {
+               limit,
+               onQueued,
+               start: () => {
+                  signal?.removeEventListener("abort", onAbort);
+                  resolve(releaser());
+               },
+            };
+            queue.push(waiter);
+            signal?.addEventListener("abort", onAbort, { once: true });
+            onQueued?.(queue.length);
+         });
+      },
+
+      active() {
+         return active;
+      },
+
+      queued() {
+         return queue.length;
+      },
+   };
+}
+
+function canceledWhileQueued(): ReplicantQueueError {
+   return new ReplicantQueueError("Replicant call was canceled while waiting for a free subagent slot.");
+}
+
+export interface SingleFlight {
+   run<T>(key: string, signal: AbortSignal | undefined, fn: (signal: AbortSignal) => Promise<T>): Promise<T>;
+   forget(key: string): void;
+}
+
+interface Flight {
+   promise: Promise<unknown>;
+   controller: AbortController;
+   waiters: number;
+}
+
+export function createSingleFlight(): SingleFlight {
+   const flights = new Map<string, Flight>();
+
+   return {
+      run<T>(key: string, signal: AbortSignal | undefined, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+         if (signal?.aborted) return Promise.reject(signal.reason ?? new Error("Aborted."));
+         let flight = flights.get(key);
+         if (!flight) {
+            const controller = new AbortController();
+            const created: Flight = { controller, waiters: 0, promise: Promise.resolve() };
+            created.promise = fn(controller.signal).finally(() => {
+               if (flights.get(key) === created) flights.delete(key);
+            });
+            flights.set(key, created);
+            flight = created;
+         }
+         const joined = flight;
+         joined.waiters += 1;
+         if (!signal) return joined.promise as Promise<T>;
+
+         return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+               joined.waiters -= 1;
+               if (joined.waiters === 0) {
+                  if (flights.get(key) === joined) flights.delete(key);
+                  joined.controller.abort(signal.reason);
+               }
+               reject(signal.reason ?? new Error("Aborted."));
+            };
+            signal.addEventListener("abort", onAbort, { once: true });
+            (joined.promise as Promise<T>).then(
+               (value) => {
+                  signal.removeEventListener("abort", onAbort);
+                  resolve(value);
+               },
+               (error) => {
+                  signal.removeEventListener("abort", onAbort);
+                  reject(error);
+               },
+            );
+         });
+      },
+
+      forget(key) {
+         flights.delete(key);
+      },
+   };
+}
@@ -3,6 +3,10 @@ import { Type, type Static } from "@sinclair/typebox";
 export const MAX_TASK_LENGTH = 4000;
 export const MAX_REPO_LENGTH = 200;
 export const MAX_CWD_LENGTH = 1000;
+export const MAX_COMPARE_REPOS = 4;
+export const MAX_AGENT_NAME_LENGTH = 64;
+export const MAX_REF_LENGTH = 200;
+export const SESSION_ID_PATTERN = "^rpl-[0-9a-f]{12}$";
 
 
 export const ReplicantParamsSchema = Type.Object({
@@ -15,7 +19,82 @@ export const ReplicantParamsSchema = Type.Object({
       Type.String({
          minLength: 1,
          maxLength: MAX_REPO_LENGTH,
-         description: "Preferred repo hint (owner/repo).",
+         description: "Preferred repo hint (owner/repo, host:group/repo or an https/ssh clone URL, optionally with @ref).",
+      }),
+   ),
+   path: Type.Optional(
+      Type.String({
+         minLength: 1,
+         maxLength: MAX_CWD_LENGTH,
+         description: "Local directory to explore instead of an Offworld repo (e.g. a vendored fork). Mutually exclusive with repo and repos.",
+      }),
+   ),
+   ref: Type.Optional(
+      Type.String({
+         minLength: 1,
+         maxLength: MAX_REF_LENGTH,
+         description: "Git tag, branch or commit to explore instead of the clone's checkout (e.g. v2.3.1).",
+      }),
+   ),
+   repos: Type.Optional(
+      Type.Array(
+         Type.String({
+            minLength: 1,
+            maxLength: MAX_REPO_LENGTH,
+         }),
+         {
+            minItems: 2,
+            maxItems: MAX_COMPARE_REPOS,
+            description:
+               "Repos to explore side by side and compare (owner/repo, host:group/repo or a clone URL, optionally with @ref, each). Mutually exclusive with repo.",
+         },
+      ),
+   ),
+   agent: Type.Optional(
+      Type.String({
+         minLength: 1,
+         maxLength: MAX_AGENT_NAME_LENGTH,
+         description: "Replicant agent profile to run (defaults to \"replicant\").",
+      }),
+   ),
+   maxTurns: Type.Optional(
+      Type.Integer({
+         minimum: 2,
+         description: "Turn budget for this call. Omit to use the agent profile or configured default.",
+      }),
+   ),
+   maxToolCalls: Type.Optional(
+      Type.Integer({
+         minimum: 1,
+         description: "Tool call budget for this call. Use small budgets for quick lookups.",
+      }),
+   ),
+   format: Type.Optional(
+      Type.Union([Type.Literal("markdown"), Type.Literal("json")], {
+         description:
+            "Output format. json returns { answer, citations: [{ path, startLine, endLine, claim }], uncertainties } in details.structured.",
+      }),
+   ),
+   noCache: Type.Optional(
+      Type.Boolean({
+         description: "Skip the cached answer for this repo commit and task, and run a fresh exploration.",
+      }),
+   ),
+   transcript: Type.Optional(
+      Type.Boolean({
+         description: "Write the full subagent transcript to a JSONL file in the replicant log directory (defaults to config transcripts.enabled).",
+      }),
+   ),
+   keepSession: Type.Optional(
+      Type.Boolean({
+         description: "Keep the subagent session alive after answering and return a sessionId for follow-up questions.",
+      }),
+   ),
+   sessionId: Type.Optional(
+      Type.String({
+         pattern: SESSION_ID_PATTERN,
+         description:
+            "Continue a live replicant session returned by an earlier call (keepSession: true). The repo, agent and budget of that session are reused.",
       }),
    ),
    cwd: Type.Optional(
@@ -35,13 +114,21 @@ export function assertNoControlChars(value: string, fieldName: string) {
    }
 }
 
-export function normalizeRepoHint(repo?: string): string | undefined {
-   if (!repo) return undefined;
-   const trimmed = repo.trim();
-   if (!trimmed) return undefined;
-   return trimmed
-      .replace(/^https?:\/\/github.com\//, "")
-      .replace(/^github.com[:/]/, "")
-      .replace(/\.git$/, "")
-      .trim();
+export function isValidGitRef(ref: string): boolean {
+   return (
+      /^[A-Za-z0-9_][A-Za-z0-9_./+-]*$/.test(ref) &&
+      !ref.includes("..") &&
+      !ref.includes("//") &&
+      !ref.endsWith("/") &&
+      !ref.endsWith(".") &&
+      !ref.endsWith(".lock")
+   );
+}
+
+export function splitRepoRef(hint: string): { repo: string; ref?: string } {
+   const at = hint.lastIndexOf("@");
+   if (at <= 0 || at === hint.length - 1 || hint.slice(at).includes(":") || !hint.slice(0, at).includes("/")) {
+      return { repo: hint };
+   }
+   return { repo: hint.slice(0, at), ref: hint.slice(at + 1) };
 }
@@ -0,0 +1,241 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+const CONTENT_SAMPLE_BYTES = 64 * 1024;
+const BINARY_SAMPLE_BYTES = 8 * 1024;
+const MINIFIED_MIN_LINE_LENGTH = 1000;
+const MINIFIED_MIN_AVERAGE_LINE_LENGTH = 300;
+const LINE_FILTERED_TOOL_NAMES = ["git_log", "git_show", "git_blame", "symbols"];
+
+export const DEFAULT_SENSITIVE_DENY_GLOBS = [
+   ".env",
+   ".env.*",
+   "*.pem",
+   "*.key",
+   "*.p12",
+   "*.pfx",
+   "*.jks",
+   "*.keystore",
+   "*.kdbx",
+   "id_rsa",
+   "id_dsa",
+   "id_ecdsa",
+   "id_ed25519",
+   ".npmrc",
+   ".yarnrc.yml",
+   ".pypirc",
+   ".netrc",
+   ".git-credentials",
+   ".htpasswd",
+   "credentials.json",
+   "*-credentials.json",
+   "service-account*.json",
+   "secrets.{json,yml,yaml}",
+   ".aws/credentials",
+   ".docker/config.json",
+   "*.min.js",
+   "*.min.css",
+];
+
+export const DEFAULT_SENSITIVE_ALLOW_GLOBS = [".env.example", ".env.sample", ".env.template"];
+
+const SECRET_PATTERNS: Array<{ label: string; pattern: RegExp }> = [
+   { label: "private key", pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----/ },
+   { label: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+   { label: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/ },
+   { label: "Slack token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/ },
+   { label: "npm auth token", pattern: /_authToken\s*=\s*\S+/ },
+   { label: "Stripe live key", pattern: /\b[sr]k_live_[A-Za-z0-9]{16,}/ },
+];
+
+export interface SensitiveFilePolicy {
+   denyGlobs: string[];
+   allowGlobs: string[];
+   blockSecrets: boolean;
+   blockBinary: boolean;
+   blockMinified: boolean;
+   maxBinaryBytes: number;
+}
+
+export interface SensitiveFilter {
+   text: string;
+   hidden: number;
+}
+
+export interface SensitiveFileChecker {
+   pathReason(rawPath: string): string | undefined;
+   fileReason(rawPath: string): Promise<string | undefined>;
+   filterToolResult(toolName: string, input: Record<string, unknown>, text: string): Promise<SensitiveFilter>;
+}
+
+function escapeRegExp(value: string): string {
+   return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function globBody(glob: string): string {
+   let body = "";
+   for (let index = 0; index < glob.length; index++) {
+      const char = glob[index];
+      if (char === "*" && glob[index + 1] === "*") {
+         body += glob[index + 2] === "/" ? "(?:.*/)?" : ".*";
+         index += glob[index + 2] === "/" ? 2 : 1;
+      } else if (char === "*") {
+         body += "[^/]*";
+      } else if (char === "?") {
+         body += "[^/]";
+      } else if (char === "{") {
+         const close = glob.indexOf("}", index);
+         if (close === -1) {
+            body += "\\{";
+            continue;
+         }
+         body += `(?:${glob
+            .slice(index + 1, close)
+            .split(",")
+            .map((part) => globBody(part))
+            .join("|")})`;
+         index = close;
+      } else {
+         body += escapeRegExp(char);
+      }
+   }
+   return body;
+}
+
+export function matchesGlob(relativePath: string, glob: string): boolean {
+   const normalized = relativePath.replace(/\\/g, "/").replace(/^\.\//, "");
+   const pattern = glob.replace(/\\/g, "/");
+   if (!pattern.includes("/")) {
+      return new RegExp(`^${globBody(pattern)}$`).test(normalized.slice(normalized.lastIndexOf("/") + 1));
+   }
+   if (pattern.startsWith("/")) return new RegExp(`^${globBody(pattern.slice(1))}$`).test(normalized);
+   return new RegExp(`^(?:.*/)?${globBody(pattern)}$`).test(normalized);
+}
+
+function expandBraces(glob: string): string[] {
+   const match = glob.match(/^(.*?)\{([^{}]*)\}(.*)$/);
+   if (!match) return [glob];
+   return match[2].split(",").flatMap((part) => expandBraces(`${match[1]}${part}${match[3]}`));
+}
+
+export function toGitExcludePathspecs(globs: string[]): string[] {
+   return globs.flatMap(expandBraces).map((glob) => {
+      const pattern = glob.replace(/\\/g, "/");
+      return `:(exclude,glob)${pattern.startsWith("/") ? pattern.slice(1) : `**/${pattern}`}`;
+   });
+}
+
+export function sensitivePathReason(relativePath: string, policy: SensitiveFilePolicy): string | undefined {
+   if (policy.allowGlobs.some((glob) => matchesGlob(relativePath, glob))) return undefined;
+   const glob = policy.denyGlobs.find((candidate) => matchesGlob(relativePath, candidate));
+   return glob ? `matches the sensitive-file deny-list (${glob})` : undefined;
+}
+
+async function readSample(filePath: string, bytes: number): Promise<Buffer | undefined> {
+   let handle: fs.FileHandle | undefined;
+   try {
+      handle = await fs.open(filePath, "r");
+      const buffer = Buffer.alloc(bytes);
+      const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+      return buffer.subarray(0, bytesRead);
+   } catch {
+      return undefined;
+   } finally {
+      await handle?.close();
+   }
+}
+
+function looksMinified(text: string): boolean {
+   const lines = text.split("\n");
+   const longest = Math.max(...lines.map((line) => line.length));
+   return longest >= MINIFIED_MIN_LINE_LENGTH && text.length / lines.length >= MINIFIED_MIN_AVERAGE_LINE_LENGTH;
+}
+
+export async function sensitiveContentReason(filePath: string, policy: SensitiveFilePolicy): Promise<string | undefined> {
+   const stat = await fs.stat(filePath).catch(() => undefined);
+   if (!stat?.isFile()) return undefined;
+   const sample = await readSample(filePath, CONTENT_SAMPLE_BYTES);
+   if (!sample) return undefined;
+
+   if (sample.subarray(0, BINARY_SAMPLE_BYTES).includes(0)) {
+      return policy.blockBinary && stat.size > policy.maxBinaryBytes
+         ? `is a binary file larger than ${policy.maxBinaryBytes} bytes`
+         : undefined;
+   }
+   const text = sample.toString("utf8");
+   if (policy.blockSecrets) {
+      const secret = SECRET_PATTERNS.find(({ pattern }) => pattern.test(text));
+      if (secret) return `appears to contain a secret (${secret.label})`;
+   }
+   if (policy.blockMinified && looksMinified(text)) return "looks like a minified bundle";
+   return undefined;
+}
+
+function parseGrepLine(line: string): string | undefined {
+   return line.match(/^(.+?)(?::\d+: |-\d+- )/)?.[1];
+}
+
+export function createSensitiveFileChecker(cwd: string, policy: SensitiveFilePolicy): SensitiveFileChecker {
+   const contentReasons = new Map<string, Promise<string | undefined>>();
+
+   const toRelative = (absolutePath: string) => path.relative(cwd, absolutePath).split(path.sep).join("/");
+   const resolve = (rawPath: string) => path.resolve(cwd, rawPath.trim().replace(/^@/, ""));
+
+   const reasonFor = async (absolutePath: string, checkContent: boolean) => {
+      const byPath = sensitivePathReason(toRelative(absolutePath), policy);
+      if (byPath || !checkContent) return byPath;
+      if (policy.allowGlobs.some((glob) => matchesGlob(toRelative(absolutePath), glob))) return undefined;
+      let pending = contentReasons.get(absolutePath);
+      if (!pending) {
+         pending = sensitiveContentReason(absolutePath, policy);
+         contentReasons.set(absolutePath, pending);
+      }
+      return pending;
+   };
+
+   return {
+      pathReason(rawPath) {
+         return sensitivePathReason(toRelative(resolve(rawPath)), policy);
+      },
+
+      fileReason(rawPath) {
+         return reasonFor(resolve(rawPath), true);
+      },
+
+      async filterToolResult(toolName, input, text) {
+         if (LINE_FILTERED_TOOL_NAMES.includes(toolName)) {
+            const lines = text.split("\n");
+            const kept = lines.filter((line) => {
+               const cited = toolName === "symbols" ? line.match(/^([^\s:][^:]*):\d+/)?.[1] : undefined;
+               if (cited && sensitivePathReason(cited, policy)) return false;
+               return !policy.blockSecrets || !SECRET_PATTERNS.some(({ pattern }) => pattern.test(line));
+            });
+            const hidden = lines.length - kept.length;
+            if (hidden === 0) return { text, hidden };
+            const reason = toolName === "symbols" ? "from deny-listed files or that appear to contain secrets" : "that appear to contain secrets";
+            return { text: `${kept.join("\n")}\n\n[${hidden} lines ${reason} hidden by the sensitive-file policy]`, hidden };
+         }
+         if (!["grep", "find", "ls"].includes(toolName)) return { text, hidden: 0 };
+         const base = resolve(typeof input.path === "string" ? input.path : ".");
+         const baseIsFile = (await fs.stat(base).catch(() => undefined))?.isFile() ?? false;
+         const kept: string[] = [];
+         let hidden = 0;
+         for (const line of text.split("\n")) {
+            const entry = toolName === "grep" ? parseGrepLine(line) : line.trim() && !line.startsWith("[") ? line.replace(/\/$/, "") : undefined;
+            if (entry === undefined || (toolName !== "grep" && entry.startsWith("("))) {
+               kept.push(line);
+               continue;
+            }
+            const absolutePath = baseIsFile ? base : path.resolve(base, entry);
+            if (await reasonFor(absolutePath, toolName === "grep")) {
+               hidden += 1;
+               continue;
+            }
+            kept.push(line);
+         }
+         if (hidden === 0) return { text, hidden };
+         const filtered = kept.join("\n").trim() || "(no visible results)";
+         return { text: `${filtered}\n\n[${hidden} ${toolName === "grep" ? "matching lines" : "entries"} hidden by the sensitive-file policy]`, hidden };
+      },
+   };
+}
@@ -0,0 +1,134 @@
+import { randomBytes } from "node:crypto";
+import type { ReplicantLiveSession } from "./subproc";
+
+export interface SessionLimits {
+   idleMs: number;
+   maxSessions: number;
+}
+
+export interface StoredSession<T> {
+   id: string;
+   live: ReplicantLiveSession;
+   context: T;
+   idleMs: number;
+   createdAt: number;
+   lastUsedAt: number;
+   followUps: number;
+   busy: boolean;
+}
+
+export class ReplicantSessionError extends Error {
+   constructor(
+      message: string,
+      readonly remediation?: string,
+   ) {
+      super(message);
+   }
+}
+
+export interface SessionStore<T> {
+   add(live: ReplicantLiveSession, context: T, limits: SessionLimits): StoredSession<T> | undefined;
+   acquire(id: string): StoredSession<T>;
+   release(id: string, keep: boolean): void;
+   remove(id: string): void;
+   clear(): void;
+   size(): number;
+}
+
+export function createSessionId(): string {
+   return `rpl-${randomBytes(6).toString("hex")}`;
+}
+
+export function createSessionStore<T>(): SessionStore<T> {
+   const sessions = new Map<string, StoredSession<T>>();
+   const timers = new Map<string, NodeJS.Timeout>();
+
+   const remove = (id: string) => {
+      const timer = timers.get(id);
+      if (timer) clearTimeout(timer);
+      timers.delete(id);
+      const stored = sessions.get(id);
+      sessions.delete(id);
+      stored?.live.dispose();
+   };
+
+   const scheduleEviction = (stored: StoredSession<T>) => {
+      const existing = timers.get(stored.id);
+      if (existing) clearTimeout(existing);
+      const timer = setTimeout(() => remove(stored.id), stored.idleMs);
+      timer.unref?.();
+      timers.set(stored.id, timer);
+   };
+
+   return {
+      add(live, context, limits) {
+         const idle = [...sessions.values()].filter((stored) => !stored.busy).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+         while (sessions.size >= limits.maxSessions && idle.length > 0) {
+            remove(idle.shift()!.id);
+         }
+         if (sessions.size >= limits.maxSessions) {
+            live.dispose();
+            return undefined;
+         }
+
+         const createdAt = Date.now();
+         const stored: StoredSession<T> = {
+            id: createSessionId(),
+            live,
+            context,
+            idleMs: limits.idleMs,
+            createdAt,
+            lastUsedAt: createdAt,
+            followUps: 0,
+            busy: false,
+         };
+         sessions.set(stored.id, stored);
+         scheduleEviction(stored);
+         return stored;
+      },
+
+      acquire(id) {
+         const stored = sessions.get(id);
+         if (!stored) {
+            throw new ReplicantSessionError(
+               `Replicant session ${id} is not active; it may have expired or been closed.`,
+               "Start a new exploration without sessionId (set keepSession: true to allow follow-ups).",
+            );
+         }
+         if (stored.busy) {
+            throw new ReplicantSessionError(
+               `Replicant session ${id} is already answering another question.`,
+               "Wait for the running follow-up to finish, then retry.",
+            );
+         }
+         stored.busy = true;
+         const timer = timers.get(id);
+         if (timer) clearTimeout(timer);
+         timers.delete(id);
+         return stored;
+      },
+
+      release(id, keep) {
+         const stored = sessions.get(id);
+         if (!stored) return;
+         if (!keep) {
+            remove(id);
+            return;
+         }
+         stored.busy = false;
+         stored.followUps += 1;
+         stored.lastUsedAt = Date.now();
+         scheduleEviction(stored);
+      },
+
+      remove,
+
+      clear() {
+         for (const id of [...sessions.keys()]) remove(id);
+      },
+
+      size() {
+         return sessions.size;
+      },
+   };
+}
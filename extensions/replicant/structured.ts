@@ -0,0 +1,95 @@
+import { Type, type Static } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+
+export const ReplicantCitationSchema = Type.Object({
+   repo: Type.Optional(Type.String({ minLength: 1 })),
+   commit: Type.Optional(Type.String({ pattern: "^[0-9a-f]{7,64}$" })),
+   path: Type.String({ minLength: 1 }),
+   startLine: Type.Integer({ minimum: 1 }),
+   endLine: Type.Integer({ minimum: 1 }),
+   claim: Type.String({ minLength: 1 }),
+});
+
+export const ReplicantStructuredAnswerSchema = Type.Object({
+   answer: Type.String({ minLength: 1 }),
+   citations: Type.Array(ReplicantCitationSchema),
+   uncertainties: Type.Array(Type.String()),
+});
+
+export type ReplicantCitation = Static<typeof ReplicantCitationSchema>;
+export type ReplicantStructuredAnswer = Static<typeof ReplicantStructuredAnswerSchema>;
+
+export type StructuredParseResult =
+   | { ok: true; value: ReplicantStructuredAnswer }
+   | { ok: false; error: string };
+
+export function buildJsonOutputInstructions(withRepo = false): string {
+   const citation = withRepo
+      ? '{ "repo": "owner/repo", "path": "src/file.ts", "startLine": 10, "endLine": 20, "claim": "what these lines show" }'
+      : '{ "path": "src/file.ts", "startLine": 10, "endLine": 20, "claim": "what these lines show" }';
+   return [
+      "Output format:",
+      "- Respond with a single JSON object and nothing else (no prose, no code fences).",
+      `- Shape: { "answer": string, "citations": [${citation}], "uncertainties": string[] }`,
+      "- answer: the direct answer to the task in compact markdown.",
+      `- citations: one entry per concrete code claim; paths are relative to the clone root${withRepo ? " of the cited repo" : ""}, lines are 1-based and inclusive.`,
+      '- For claims drawn from git history, add "commit": "<sha>" to the citation; its lines then refer to the file at that commit.',
+      "- uncertainties: open questions or assumptions; use [] when there are none.",
+   ].join("\n");
+}
+
+export function buildJsonRepairPrompt(error: string): string {
+   return [
+      "Your previous reply was not valid for the required JSON output format.",
+      `Problem: ${error}`,
+      "Reply again with only the corrected JSON object, reusing the evidence you already gathered. Do not call tools.",
+   ].join("\n");
+}
+
+function extractJsonCandidate(text: string): string {
+   const trimmed = text.trim();
+   const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n```$/);
+   if (fenced?.[1]) return fenced[1];
+   const start = trimmed.indexOf("{");
+   const end = trimmed.lastIndexOf("}");
+   return start !== -1 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
+
+export function parseStructuredAnswer(text: string): StructuredParseResult {
+   let parsed: unknown;
+   try {
+      parsed = JSON.parse(extractJsonCandidate(text));
+   } catch (error) {
+      return { ok: false, error: `output is not valid JSON (${error instanceof Error ? error.message : String(error)})` };
+   }
+
+   if (!Value.Check(ReplicantStructuredAnswerSchema, parsed)) {
+      const issues = [...Value.Errors(ReplicantStructuredAnswerSchema, parsed)]
+         .slice(0, 5)
+         .map((issue) => `${issue.path || "/"} ${issue.message}`);
+      return { ok: false, error: `JSON does not match the schema: ${issues.join("; ")}` };
+   }
+
+   const reversed = parsed.citations.find((citation) => citation.endLine < citation.startLine);
+   if (reversed) {
+      return { ok: false, error: `citation ${reversed.path} has endLine ${reversed.endLine} before startLine ${reversed.startLine}` };
+   }
+
+   return { ok: true, value: parsed };
+}
+
+export function formatStructuredAnswerMarkdown(value: ReplicantStructuredAnswer): string {
+   const lines = [value.answer.trim()];
+   if (value.citations.length > 0) {
+      lines.push("", "**Citations**");
+      for (const citation of value.citations) {
+         const location = `${citation.repo ? `${citation.repo}:` : ""}${citation.commit ? `${citation.commit}:` : ""}${citation.path}#L${citation.startLine}-L${citation.endLine}`;
+         lines.push(`- \`${location}\` ${citation.claim}`);
+      }
+   }
+   if (value.uncertainties.length > 0) {
+      lines.push("", "**Uncertainties**");
+      for (const uncertainty of value.uncertainties) lines.push(`- ${uncertainty}`);
+   }
+   return lines.join("\n");
+}
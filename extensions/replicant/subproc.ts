@@ -12,21 +12,62 @@ import {
    truncateHead,
    type ExtensionFactory,
 } from "@mariozechner/pi-coding-agent";
+import { HISTORY_TOOLS, createHistoryExtension } from "./history";
+import { createSensitiveFileChecker, type SensitiveFileChecker, type SensitiveFilePolicy } from "./sensitive";
+import { SYMBOLS_TOOL, createSymbolsExtension } from "./symbols";
+import { writeTranscript, type ReplicantTranscriptOptions, type TranscriptPolicyBlock } from "./transcripts";
 
 const MAX_FINAL_TEXT_BYTES = DEFAULT_MAX_BYTES;
 const MAX_FINAL_TEXT_LINES = DEFAULT_MAX_LINES;
 const MAX_EVENTS_TO_KEEP = 120;
+const MAX_POLICY_ARG_CHARS = 200;
+const EXTENSION_TOOLS: string[] = [...HISTORY_TOOLS, SYMBOLS_TOOL];
+const PATH_CHECKED_TOOLS: string[] = ["read", "grep", "find", "ls", ...EXTENSION_TOOLS];
 const DEFAULT_MAX_TURNS = 8;
 const DEFAULT_MAX_TOOL_CALLS = 40;
+const BUDGET_LABELS: Record<ReplicantBudgetExhausted, string> = { tool_calls: "tool call", time: "time" };
 
 type ToolEvent = {
    type: "tool_start" | "tool_end";
+   toolCallId?: string;
    toolName: string;
    args?: unknown;
    isError?: boolean;
    timestamp: number;
 };
 
+export interface ReplicantTokenUsage {
+   input: number;
+   output: number;
+   cacheRead: number;
+   cacheWrite: number;
+   totalTokens: number;
+   cost: number;
+}
+
+export interface ReplicantTurnUsage extends ReplicantTokenUsage {
+   turn: number;
+   model?: string;
+}
+
+export interface ReplicantUsage extends ReplicantTokenUsage {
+   turns: ReplicantTurnUsage[];
+}
+
+export type ReplicantPolicyDecisionKind = "allowed" | "blocked-scope" | "blocked-budget" | "blocked-glob" | "blocked-sensitive";
+
+export interface ReplicantPolicyDecision {
+   toolCallId?: string;
+   toolName: string;
+   args: Record<string, unknown>;
+   decision: ReplicantPolicyDecisionKind;
+   reason?: string;
+   turnIndex: number;
+   timestamp: number;
+}
+
+export type ReplicantBudgetExhausted = "tool_calls" | "time";
+
 export type ReplicantPhase = "booting" | "exploring" | "writing" | "done" | "error" | "aborted";
 
 export interface ReplicantSubprocessDetails {
@@ -40,6 +81,12 @@ export interface ReplicantSubprocessDetails {
    exitCode?: number;
    stopReason?: string;
    errorMessage?: string;
+   repairAttempts?: number;
+   budgetExhausted?: ReplicantBudgetExhausted;
+   usage?: ReplicantUsage;
+   policyDecisions?: ReplicantPolicyDecision[];
+   transcriptPath?: string;
+   transcriptError?: string;
    stderrPreview?: string;
    truncation?: {
       stdoutOverflow: boolean;
@@ -57,18 +104,48 @@ export interface RunReplicantSubprocessOptions {
    model?: string;
    maxTurns?: number;
    maxToolCalls?: number;
+   softTimeBudgetMs?: number;
    signal?: AbortSignal;
    scope?: {
       allowedRoots: string[];
       allowedFiles?: string[];
    };
+   history?: ReplicantHistorySource;
+   sensitive?: SensitiveFilePolicy;
    onUpdate?: (statusText: string, details: ReplicantSubprocessDetails) => void;
+   repairPrompt?: (finalText: string) => string | undefined | Promise<string | undefined>;
+   keepAlive?: boolean;
+   transcript?: ReplicantTranscriptOptions;
    sessionFactory?: ReplicantSessionFactory;
 }
 
+export interface ReplicantHistorySource {
+   repoPath: string;
+   rev: string;
+}
+
+export interface ContinueReplicantSessionOptions {
+   taskPrompt: string;
+   budget: "shared" | "refresh";
+   softTimeBudgetMs?: number;
+   signal?: AbortSignal;
+   onUpdate?: (statusText: string, details: ReplicantSubprocessDetails) => void;
+   repairPrompt?: (finalText: string) => string | undefined | Promise<string | undefined>;
+   transcript?: ReplicantTranscriptOptions;
+}
+
+export interface ReplicantLiveSession {
+   maxTurns: number;
+   maxToolCalls: number;
+   toolCallsUsed(): number;
+   continue(options: ContinueReplicantSessionOptions): Promise<ReplicantSubprocessResult>;
+   dispose(): void;
+}
+
 export interface ReplicantSubprocessResult {
    finalText: string;
    details: ReplicantSubprocessDetails;
+   session?: ReplicantLiveSession;
 }
 
 export interface ReplicantSessionLike {
@@ -90,13 +167,15 @@ export interface ReplicantSessionFactoryInput {
       allowedRoots: string[];
       allowedFiles?: string[];
    };
+   history?: ReplicantHistorySource;
+   sensitive?: SensitiveFilePolicy;
    signal?: AbortSignal;
    policyState: ReplicantPolicyState;
 }
 
 export type ReplicantSessionFactory = (input: ReplicantSessionFactoryInput) => Promise<ReplicantSessionLike>;
 
-type ResolvedScope = {
+export type ResolvedScope = {
    cwd: string;
    allowedRoots: string[];
    allowedFiles: string[];
@@ -107,8 +186,22 @@ type ReplicantPolicyState = {
    toolCalls: number;
    violation?: string;
    turnBudgetBlocked?: string;
+   budgetExhausted?: ReplicantBudgetExhausted;
+   timeBudget?: ReplicantTimeBudget;
+   decisions: ReplicantPolicyDecision[];
 };
 
+export interface ReplicantTimeBudget {
+   budgetMs: number;
+   deadline: number;
+}
+
+export interface ToolCallPolicyDecision {
+   decision: ReplicantPolicyDecisionKind;
+   reason?: string;
+   exhausted?: ReplicantBudgetExhausted;
+}
+
 export interface ToolCallPolicyInput {
    toolName: string;
    input: unknown;
@@ -117,6 +210,9 @@ export interface ToolCallPolicyInput {
    maxTurns: number;
    maxToolCalls: number;
    scope: ResolvedScope;
+   exhausted?: ReplicantBudgetExhausted;
+   timeBudget?: ReplicantTimeBudget;
+   now?: number;
 }
 
 function normalizeToolPath(input: string): string {
@@ -148,7 +244,7 @@ function statusSummary(details: ReplicantSubprocessDetails): string {
    return `replicant ${details.phase}: tools=${details.toolCalls} errors=${details.toolErrors}`;
 }
 
-function resolveScope(cwd: string, scope?: { allowedRoots: string[]; allowedFiles?: string[] }): ResolvedScope {
+export function resolveScope(cwd: string, scope?: { allowedRoots: string[]; allowedFiles?: string[] }): ResolvedScope {
    return {
       cwd,
       allowedRoots: (scope?.allowedRoots ?? []).map((root) => path.resolve(cwd, root)),
@@ -160,20 +256,50 @@ function normalizeToolInput(input: unknown): Record<string, unknown> {
    return input && typeof input === "object" ? (input as Record<string, unknown>) : {};
 }
 
-export function getToolCallPolicyViolation(options: ToolCallPolicyInput): string | undefined {
-   const { toolName, input, turnIndex, toolCalls, maxTurns, maxToolCalls, scope } = options;
+export function isPathInScope(rawPath: string, scope: ResolvedScope): boolean {
+   const resolvedPath = path.resolve(scope.cwd, normalizeToolPath(rawPath));
+   const allowedByRoot = scope.allowedRoots.some((root) => isWithinPath(resolvedPath, root));
+   const allowedByFile = scope.allowedFiles.some((file) => resolvedPath === file);
+   return allowedByRoot || allowedByFile;
+}
+
+export function getToolCallPolicyDecision(options: ToolCallPolicyInput): ToolCallPolicyDecision {
+   const { toolName, input, turnIndex, toolCalls, maxTurns, maxToolCalls, scope, exhausted, timeBudget } = options;
+
+   if (exhausted) {
+      return {
+         decision: "blocked-budget",
+         reason: `Replicant subagent ${BUDGET_LABELS[exhausted]} budget is exhausted. Answer with the evidence you have instead of calling more tools.`,
+         exhausted,
+      };
+   }
 
    if (turnIndex >= maxTurns - 1) {
       const humanTurn = Math.min(turnIndex + 1, maxTurns);
-      return `Replicant subagent turn budget exceeded (${humanTurn}/${maxTurns}) before producing a final answer.`;
+      return {
+         decision: "blocked-budget",
+         reason: `Replicant subagent turn budget exceeded (${humanTurn}/${maxTurns}) before producing a final answer.`,
+      };
+   }
+
+   if (timeBudget && (options.now ?? Date.now()) >= timeBudget.deadline) {
+      return {
+         decision: "blocked-budget",
+         reason: `Replicant subagent soft time budget exceeded (${Math.round(timeBudget.budgetMs / 1000)}s). Answer with the evidence you have.`,
+         exhausted: "time",
+      };
    }
 
    if (toolCalls >= maxToolCalls) {
-      return `Replicant subagent tool call budget exceeded (${toolCalls}/${maxToolCalls}). Narrow the task for focused exploration.`;
+      return {
+         decision: "blocked-budget",
+         reason: `Replicant subagent tool call budget exceeded (${toolCalls}/${maxToolCalls}). Answer with the evidence you have.`,
+         exhausted: "tool_calls",
+      };
    }
 
-   if (!["read", "grep", "find", "ls"].includes(toolName)) return undefined;
-   if (scope.allowedRoots.length === 0 && scope.allowedFiles.length === 0) return undefined;
+   if (!PATH_CHECKED_TOOLS.includes(toolName)) return { decision: "allowed" };
+   if (scope.allowedRoots.length === 0 && scope.allowedFiles.length === 0) return { decision: "allowed" };
 
    const toolInput = normalizeToolInput(input);
    const rawPath =
@@ -184,20 +310,84 @@ export function getToolCallPolicyViolation(options: ToolCallPolicyInput): string
             : ".";
 
    if (toolName === "find" && typeof toolInput.pattern === "string" && hasUnsafeGlobSegments(toolInput.pattern)) {
-      return `Replicant subagent attempted out-of-scope find pattern: ${toolInput.pattern}. Parent-directory and absolute patterns are not allowed.`;
+      return {
+         decision: "blocked-glob",
+         reason: `Replicant subagent attempted out-of-scope find pattern: ${toolInput.pattern}. Parent-directory and absolute patterns are not allowed.`,
+      };
    }
 
    if (toolName === "grep" && typeof toolInput.glob === "string" && hasUnsafeGlobSegments(toolInput.glob)) {
-      return `Replicant subagent attempted out-of-scope grep glob: ${toolInput.glob}. Parent-directory and absolute globs are not allowed.`;
+      return {
+         decision: "blocked-glob",
+         reason: `Replicant subagent attempted out-of-scope grep glob: ${toolInput.glob}. Parent-directory and absolute globs are not allowed.`,
+      };
    }
 
-   const resolvedPath = path.resolve(scope.cwd, normalizeToolPath(rawPath));
-   const allowedByRoot = scope.allowedRoots.some((root) => isWithinPath(resolvedPath, root));
-   const allowedByFile = scope.allowedFiles.some((file) => resolvedPath === file);
+   if (isPathInScope(rawPath, scope)) return { decision: "allowed" };
 
-   if (allowedByRoot || allowedByFile) return undefined;
+   return {
+      decision: "blocked-scope",
+      reason: `Replicant subagent attempted out-of-scope ${toolName} path: ${rawPath}. Allowed roots: ${scope.allowedRoots.join(", ")}. Allowed files: ${scope.allowedFiles.join(", ") || "(none)"}.`,
+   };
+}
+
+export function buildWrapUpPrompt(exhausted: ReplicantBudgetExhausted): string {
+   return [
+      `Your ${BUDGET_LABELS[exhausted]} budget is exhausted and further tool calls will be blocked.`,
+      "Answer now with the evidence you have gathered so far: state what you verified, with citations,",
+      "and end with a list of open questions you could not resolve.",
+   ].join("\n");
+}
 
-   return `Replicant subagent attempted out-of-scope ${toolName} path: ${rawPath}. Allowed roots: ${scope.allowedRoots.join(", ")}. Allowed files: ${scope.allowedFiles.join(", ") || "(none)"}.`;
+export function getToolCallPolicyViolation(options: ToolCallPolicyInput): string | undefined {
+   return getToolCallPolicyDecision(options).reason;
+}
+
+export function normalizePolicyArgs(input: unknown, scope: ResolvedScope): Record<string, unknown> {
+   const normalized: Record<string, unknown> = {};
+   for (const [key, value] of Object.entries(normalizeToolInput(input))) {
+      if (value === undefined) continue;
+      if ((key === "path" || key === "file_path") && typeof value === "string") {
+         const resolved = path.resolve(scope.cwd, normalizeToolPath(value));
+         const relative = path.relative(scope.cwd, resolved);
+         normalized[key] = isWithinPath(resolved, scope.cwd) ? relative || "." : resolved;
+      } else if (typeof value === "string") {
+         const trimmed = value.trim();
+         normalized[key] = trimmed.length > MAX_POLICY_ARG_CHARS ? `${trimmed.slice(0, MAX_POLICY_ARG_CHARS - 3)}...` : trimmed;
+      } else {
+         normalized[key] = value;
+      }
+   }
+   return normalized;
+}
+
+export async function getSensitiveToolCallReason(
+   checker: SensitiveFileChecker,
+   toolName: string,
+   input: unknown,
+): Promise<string | undefined> {
+   if (!PATH_CHECKED_TOOLS.includes(toolName)) return undefined;
+   const toolInput = normalizeToolInput(input);
+   const rawPath = typeof toolInput.path === "string" ? toolInput.path : typeof toolInput.file_path === "string" ? toolInput.file_path : undefined;
+   if (!rawPath) return undefined;
+   const reason = ["read", "git_blame"].includes(toolName) ? await checker.fileReason(rawPath) : checker.pathReason(rawPath);
+   return reason
+      ? `Replicant policy blocked ${toolName} of ${rawPath}: the file ${reason}. Continue without it; do not try to read it another way.`
+      : undefined;
+}
+
+export function isBlockedDecision(decision: ReplicantPolicyDecision): boolean {
+   return decision.decision !== "allowed";
+}
+
+function toTranscriptPolicyBlock(decision: ReplicantPolicyDecision): TranscriptPolicyBlock {
+   return {
+      toolName: decision.toolName,
+      input: decision.args,
+      reason: decision.reason ?? decision.decision,
+      turnIndex: decision.turnIndex,
+      timestamp: decision.timestamp,
+   };
 }
 
 function createPolicyExtension(
@@ -205,24 +395,51 @@ function createPolicyExtension(
    maxTurns: number,
    maxToolCalls: number,
    policyState: ReplicantPolicyState,
+   sensitive?: SensitiveFilePolicy,
 ): ExtensionFactory {
+   const checker = sensitive ? createSensitiveFileChecker(scope.cwd, sensitive) : undefined;
    return (pi) => {
       pi.on("turn_start", async (event) => {
          policyState.turnIndex = event.turnIndex;
       });
 
       pi.on("tool_call", async (event, ctx) => {
-         const violation = getToolCallPolicyViolation({
+         const input = (event as { input?: unknown }).input;
+         const record = (decision: ReplicantPolicyDecisionKind, reason?: string) => {
+            policyState.decisions.push({
+               toolCallId: event.toolCallId,
+               toolName: event.toolName,
+               args: normalizePolicyArgs(input, scope),
+               decision,
+               reason,
+               turnIndex: policyState.turnIndex,
+               timestamp: Date.now(),
+            });
+         };
+
+         const { decision, reason: violation, exhausted } = getToolCallPolicyDecision({
             toolName: event.toolName,
-            input: (event as { input?: unknown }).input,
+            input,
             turnIndex: policyState.turnIndex,
             toolCalls: policyState.toolCalls,
             maxTurns,
             maxToolCalls,
             scope,
+            exhausted: policyState.budgetExhausted,
+            timeBudget: policyState.timeBudget,
          });
 
+         if (exhausted) {
+            record(decision, violation);
+            if (!policyState.budgetExhausted) {
+               policyState.budgetExhausted = exhausted;
+               pi.sendUserMessage(buildWrapUpPrompt(exhausted), { deliverAs: "steer" });
+            }
+            return { block: true, reason: violation };
+         }
+
          if (violation) {
+            record(decision, violation);
             const blockedOnFinalTurn = policyState.turnIndex >= maxTurns - 1;
             if (blockedOnFinalTurn) {
                policyState.turnBudgetBlocked = policyState.turnBudgetBlocked ?? violation;
@@ -239,9 +456,24 @@ function createPolicyExtension(
             };
          }
 
+         const sensitiveReason = checker ? await getSensitiveToolCallReason(checker, event.toolName, input) : undefined;
+         if (sensitiveReason) {
+            record("blocked-sensitive", sensitiveReason);
+            return { block: true, reason: sensitiveReason };
+         }
+
+         record("allowed");
          policyState.toolCalls += 1;
          return undefined;
       });
+
+      if (!checker) return;
+      pi.on("tool_result", async (event) => {
+         if (event.isError) return undefined;
+         const text = event.content.map((part) => (part.type === "text" ? part.text : "")).join("");
+         const filtered = await checker.filterToolResult(event.toolName, event.input, text);
+         return filtered.hidden > 0 ? { content: [{ type: "text", text: filtered.text }] } : undefined;
+      });
    };
 }
 
@@ -295,6 +527,8 @@ function createReadOnlyToolsForSession(cwd: string, toolNames: string[]) {
          continue;
       }
 
+      if (EXTENSION_TOOLS.includes(toolName)) continue;
+
       throw new Error(`Replicant subagent requested unsupported tool: ${toolName}`);
    }
 
@@ -311,12 +545,23 @@ function getLastAssistantMessage(messages: any[]): any | undefined {
 
 async function createDefaultSession(input: ReplicantSessionFactoryInput): Promise<ReplicantSessionLike> {
    const scope = resolveScope(input.cwd, input.scope);
+   const extensionToolOptions = {
+      cwd: input.cwd,
+      repoPath: input.history?.repoPath ?? input.cwd,
+      rev: input.history?.rev ?? "HEAD",
+      tools: input.tools,
+      excludeGlobs: input.sensitive?.denyGlobs,
+   };
    const resourceLoader = new DefaultResourceLoader({
       noExtensions: true,
       noSkills: true,
       noPromptTemplates: true,
       noThemes: true,
-      extensionFactories: [createPolicyExtension(scope, input.maxTurns, input.maxToolCalls, input.policyState)],
+      extensionFactories: [
+         createPolicyExtension(scope, input.maxTurns, input.maxToolCalls, input.policyState, input.sensitive),
+         createHistoryExtension(extensionToolOptions),
+         createSymbolsExtension(extensionToolOptions),
+      ],
       systemPromptOverride: () => input.systemPrompt,
       skillsOverride: () => ({ skills: [], diagnostics: [] }),
    });
@@ -347,25 +592,47 @@ async function createDefaultSession(input: ReplicantSessionFactoryInput): Promis
    return session as unknown as ReplicantSessionLike;
 }
 
-export async function runReplicantSubprocess(options: RunReplicantSubprocessOptions): Promise<ReplicantSubprocessResult> {
-   const { cwd, systemPrompt, taskPrompt, tools, model, maxTurns, maxToolCalls, signal, scope, onUpdate, sessionFactory } = options;
+export function emptyTokenUsage(): ReplicantTokenUsage {
+   return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, totalTokens: 0, cost: 0 };
+}
 
-   const effectiveMaxTurns =
-      typeof maxTurns === "number" && Number.isFinite(maxTurns) && maxTurns > 0 ? Math.floor(maxTurns) : DEFAULT_MAX_TURNS;
+export function addTokenUsage<T extends ReplicantTokenUsage>(target: T, usage: ReplicantTokenUsage): T {
+   target.input += usage.input;
+   target.output += usage.output;
+   target.cacheRead += usage.cacheRead;
+   target.cacheWrite += usage.cacheWrite;
+   target.totalTokens += usage.totalTokens;
+   target.cost += usage.cost;
+   return target;
+}
 
-   const effectiveMaxToolCalls =
-      typeof maxToolCalls === "number" && Number.isFinite(maxToolCalls) && maxToolCalls > 0
-         ? Math.floor(maxToolCalls)
-         : DEFAULT_MAX_TOOL_CALLS;
+function toTokenUsage(raw: any): ReplicantTokenUsage | undefined {
+   if (!raw || typeof raw !== "object") return undefined;
+   const count = (value: unknown) => (typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0);
+   const input = count(raw.input);
+   const output = count(raw.output);
+   const cacheRead = count(raw.cacheRead);
+   const cacheWrite = count(raw.cacheWrite);
+   return {
+      input,
+      output,
+      cacheRead,
+      cacheWrite,
+      totalTokens: count(raw.totalTokens) || input + output + cacheRead + cacheWrite,
+      cost: count(raw.cost?.total),
+   };
+}
 
-   const details: ReplicantSubprocessDetails = {
+function createDetails(maxTurns: number, maxToolCalls: number, toolCalls = 0): ReplicantSubprocessDetails {
+   return {
       phase: "booting",
       message: "starting subagent",
-      toolCalls: 0,
+      toolCalls,
       toolErrors: 0,
       turns: 0,
-      maxTurns: effectiveMaxTurns,
-      maxToolCalls: effectiveMaxToolCalls,
+      maxTurns,
+      maxToolCalls,
+      usage: { ...emptyTokenUsage(), turns: [] },
       events: [],
       truncation: {
          stdoutOverflow: false,
@@ -373,45 +640,50 @@ export async function runReplicantSubprocess(options: RunReplicantSubprocessOpti
          finalTextTruncated: false,
       },
    };
+}
 
-   const policyState: ReplicantPolicyState = {
-      turnIndex: 0,
-      toolCalls: 0,
-   };
+interface PromptRunOptions {
+   systemPrompt: string;
+   taskPrompt: string;
+   softTimeBudgetMs?: number;
+   signal?: AbortSignal;
+   onUpdate?: (statusText: string, details: ReplicantSubprocessDetails) => void;
+   repairPrompt?: (finalText: string) => string | undefined | Promise<string | undefined>;
+   transcript?: ReplicantTranscriptOptions;
+}
 
-   let session: ReplicantSessionLike | undefined;
+async function runPrompts(
+   activeSession: ReplicantSessionLike,
+   policyState: ReplicantPolicyState,
+   details: ReplicantSubprocessDetails,
+   options: PromptRunOptions,
+): Promise<ReplicantSubprocessResult> {
+   const { taskPrompt, softTimeBudgetMs, signal, onUpdate, repairPrompt } = options;
    let unsubscribe: (() => void) | undefined;
    let heartbeat: NodeJS.Timeout | undefined;
    let abortedBySignal = false;
    let finalText = "";
+   const prompts: string[] = [];
+   const decisionsBefore = policyState.decisions.length;
+   policyState.timeBudget =
+      softTimeBudgetMs !== undefined && softTimeBudgetMs > 0
+         ? { budgetMs: softTimeBudgetMs, deadline: Date.now() + softTimeBudgetMs }
+         : undefined;
 
    const emit = (message: string) => {
       details.message = message;
+      details.policyDecisions = policyState.decisions.slice(decisionsBefore);
+      details.budgetExhausted = policyState.budgetExhausted;
       onUpdate?.(statusSummary(details), details);
    };
 
    const onAbort = () => {
       abortedBySignal = true;
       details.phase = "aborted";
-      void session?.abort();
+      void activeSession.abort();
    };
 
    try {
-      emit("booting in-process session");
-
-      const factory = sessionFactory ?? createDefaultSession;
-      session = await factory({
-         cwd,
-         systemPrompt,
-         tools,
-         model,
-         maxTurns: effectiveMaxTurns,
-         maxToolCalls: effectiveMaxToolCalls,
-         scope,
-         signal,
-         policyState,
-      });
-
       if (signal) {
          if (signal.aborted) onAbort();
          else signal.addEventListener("abort", onAbort, { once: true });
@@ -422,7 +694,7 @@ export async function runReplicantSubprocess(options: RunReplicantSubprocessOpti
          emit(details.phase === "exploring" ? "exploring codebase" : "waiting for output");
       }, 1500);
 
-      unsubscribe = session.subscribe((event) => {
+      unsubscribe = activeSession.subscribe((event) => {
          if (event.type === "turn_end") {
             details.turns += 1;
             return;
@@ -433,6 +705,7 @@ export async function runReplicantSubprocess(options: RunReplicantSubprocessOpti
             details.toolCalls += 1;
             details.events.push({
                type: "tool_start",
+               toolCallId: typeof event.toolCallId === "string" ? event.toolCallId : undefined,
                toolName: typeof event.toolName === "string" ? event.toolName : "unknown",
                args: event.args,
                timestamp: Date.now(),
@@ -447,6 +720,7 @@ export async function runReplicantSubprocess(options: RunReplicantSubprocessOpti
             if (event.isError) details.toolErrors += 1;
             details.events.push({
                type: "tool_end",
+               toolCallId: typeof event.toolCallId === "string" ? event.toolCallId : undefined,
                toolName: typeof event.toolName === "string" ? event.toolName : "unknown",
                isError: Boolean(event.isError),
                timestamp: Date.now(),
@@ -465,6 +739,15 @@ export async function runReplicantSubprocess(options: RunReplicantSubprocessOpti
          if (event.type === "message_end" && event.message?.role === "assistant") {
             const text = extractAssistantText(event.message);
             if (text) finalText = text;
+            const usage = toTokenUsage(event.message.usage);
+            if (usage && details.usage) {
+               addTokenUsage(details.usage, usage);
+               details.usage.turns.push({
+                  turn: details.turns + 1,
+                  model: typeof event.message.model === "string" ? event.message.model : undefined,
+                  ...usage,
+               });
+            }
             details.stopReason = typeof event.message.stopReason === "string" ? event.message.stopReason : details.stopReason;
             if (typeof event.message.errorMessage === "string" && event.message.errorMessage.trim()) {
                details.errorMessage = event.message.errorMessage.trim();
@@ -474,68 +757,80 @@ export async function runReplicantSubprocess(options: RunReplicantSubprocessOpti
          }
       });
 
-      let promptError: Error | undefined;
-      try {
-         await session.prompt(taskPrompt, { expandPromptTemplates: false });
-      } catch (error) {
-         promptError = error instanceof Error ? error : new Error(String(error));
-      }
+      const promptAndCheck = async (promptText: string) => {
+         let promptError: Error | undefined;
+         prompts.push(promptText);
+         try {
+            await activeSession.prompt(promptText, { expandPromptTemplates: false });
+         } catch (error) {
+            promptError = error instanceof Error ? error : new Error(String(error));
+         }
 
-      const lastAssistant = getLastAssistantMessage(session.state.messages ?? []);
-      if (lastAssistant) {
-         const text = extractAssistantText(lastAssistant);
-         if (text) finalText = text;
-         if (typeof lastAssistant.stopReason === "string") details.stopReason = lastAssistant.stopReason;
-         if (typeof lastAssistant.errorMessage === "string" && lastAssistant.errorMessage.trim()) {
-            details.errorMessage = lastAssistant.errorMessage.trim();
+         const lastAssistant = getLastAssistantMessage(activeSession.state.messages ?? []);
+         if (lastAssistant) {
+            const text = extractAssistantText(lastAssistant);
+            if (text) finalText = text;
+            if (typeof lastAssistant.stopReason === "string") details.stopReason = lastAssistant.stopReason;
+            if (typeof lastAssistant.errorMessage === "string" && lastAssistant.errorMessage.trim()) {
+               details.errorMessage = lastAssistant.errorMessage.trim();
+            }
          }
-      }
 
-      if (policyState.violation) {
-         details.phase = "error";
-         details.errorMessage = policyState.violation;
-         details.exitCode = 1;
-         throw new Error(policyState.violation);
-      }
+         if (policyState.violation) {
+            details.phase = "error";
+            details.errorMessage = policyState.violation;
+            details.exitCode = 1;
+            throw new Error(policyState.violation);
+         }
 
-      if (abortedBySignal) {
-         details.phase = "aborted";
-         details.exitCode = 1;
-         throw new Error("Replicant subagent was aborted.");
-      }
+         if (abortedBySignal) {
+            details.phase = "aborted";
+            details.exitCode = 1;
+            throw new Error("Replicant subagent was aborted.");
+         }
 
-      if (promptError) {
-         details.phase = "error";
-         details.errorMessage = promptError.message;
-         details.exitCode = 1;
-         throw promptError;
-      }
+         if (promptError) {
+            details.phase = "error";
+            details.errorMessage = promptError.message;
+            details.exitCode = 1;
+            throw promptError;
+         }
 
-      if (!finalText.trim() && policyState.turnBudgetBlocked) {
-         details.phase = "error";
-         details.errorMessage = policyState.turnBudgetBlocked;
-         details.exitCode = 1;
-         throw new Error(policyState.turnBudgetBlocked);
-      }
+         if (!finalText.trim() && policyState.turnBudgetBlocked) {
+            details.phase = "error";
+            details.errorMessage = policyState.turnBudgetBlocked;
+            details.exitCode = 1;
+            throw new Error(policyState.turnBudgetBlocked);
+         }
 
-      if (details.stopReason === "error") {
-         details.phase = "error";
-         details.exitCode = 1;
-         throw new Error(
-            details.errorMessage
-               ? `Replicant subagent reported stopReason=error: ${details.errorMessage}`
-               : "Replicant subagent reported stopReason=error.",
-         );
-      }
+         if (details.stopReason === "error") {
+            details.phase = "error";
+            details.exitCode = 1;
+            throw new Error(
+               details.errorMessage
+                  ? `Replicant subagent reported stopReason=error: ${details.errorMessage}`
+                  : "Replicant subagent reported stopReason=error.",
+            );
+         }
+
+         if (details.stopReason === "aborted") {
+            details.phase = "aborted";
+            details.exitCode = 1;
+            throw new Error(
+               details.errorMessage
+                  ? `Replicant subagent reported stopReason=aborted: ${details.errorMessage}`
+                  : "Replicant subagent reported stopReason=aborted.",
+            );
+         }
+      };
+
+      await promptAndCheck(taskPrompt);
 
-      if (details.stopReason === "aborted") {
-         details.phase = "aborted";
-         details.exitCode = 1;
-         throw new Error(
-            details.errorMessage
-               ? `Replicant subagent reported stopReason=aborted: ${details.errorMessage}`
-               : "Replicant subagent reported stopReason=aborted.",
-         );
+      const repair = await repairPrompt?.(finalText);
+      if (repair) {
+         details.repairAttempts = (details.repairAttempts ?? 0) + 1;
+         emit("re-prompting for valid output");
+         await promptAndCheck(repair);
       }
 
       const truncated = truncateHead(finalText || "(no output)", {
@@ -547,7 +842,7 @@ export async function runReplicantSubprocess(options: RunReplicantSubprocessOpti
       details.truncation!.finalTextTruncated = truncated.truncated;
       details.phase = "done";
       details.exitCode = 0;
-      emit("completed");
+      emit(policyState.budgetExhausted ? `completed after the ${BUDGET_LABELS[policyState.budgetExhausted]} budget ran out` : "completed");
 
       return {
          finalText: finalOutput,
@@ -556,7 +851,101 @@ export async function runReplicantSubprocess(options: RunReplicantSubprocessOpti
    } finally {
       if (heartbeat) clearInterval(heartbeat);
       unsubscribe?.();
-      session?.dispose();
+      details.policyDecisions = policyState.decisions.slice(decisionsBefore);
+      details.budgetExhausted = policyState.budgetExhausted;
       if (signal) signal.removeEventListener("abort", onAbort);
+      if (options.transcript) {
+         try {
+            details.transcriptPath = await writeTranscript({
+               ...options.transcript,
+               systemPrompt: options.systemPrompt,
+               prompts,
+               messages: activeSession.state.messages ?? [],
+               policyBlocks: details.policyDecisions.filter(isBlockedDecision).map(toTranscriptPolicyBlock),
+               details,
+            });
+         } catch (error) {
+            details.transcriptError = error instanceof Error ? error.message : String(error);
+         }
+      }
+   }
+}
+
+export async function runReplicantSubprocess(options: RunReplicantSubprocessOptions): Promise<ReplicantSubprocessResult> {
+   const { cwd, systemPrompt, tools, model, maxTurns, maxToolCalls, signal, scope, history, sensitive, keepAlive, sessionFactory } = options;
+
+   const effectiveMaxTurns =
+      typeof maxTurns === "number" && Number.isFinite(maxTurns) && maxTurns > 0 ? Math.floor(maxTurns) : DEFAULT_MAX_TURNS;
+
+   const effectiveMaxToolCalls =
+      typeof maxToolCalls === "number" && Number.isFinite(maxToolCalls) && maxToolCalls > 0
+         ? Math.floor(maxToolCalls)
+         : DEFAULT_MAX_TOOL_CALLS;
+
+   const details = createDetails(effectiveMaxTurns, effectiveMaxToolCalls);
+
+   const policyState: ReplicantPolicyState = {
+      turnIndex: 0,
+      toolCalls: 0,
+      decisions: [],
+   };
+
+   let session: ReplicantSessionLike | undefined;
+   let keepSession = false;
+
+   try {
+      details.message = "booting in-process session";
+      options.onUpdate?.(statusSummary(details), details);
+
+      const factory = sessionFactory ?? createDefaultSession;
+      session = await factory({
+         cwd,
+         systemPrompt,
+         tools,
+         model,
+         maxTurns: effectiveMaxTurns,
+         maxToolCalls: effectiveMaxToolCalls,
+         scope,
+         history,
+         sensitive,
+         signal,
+         policyState,
+      });
+
+      const result = await runPrompts(session, policyState, details, options);
+      if (!keepAlive) return result;
+
+      keepSession = true;
+      const live = session;
+      return {
+         ...result,
+         session: {
+            maxTurns: effectiveMaxTurns,
+            maxToolCalls: effectiveMaxToolCalls,
+            toolCallsUsed: () => policyState.toolCalls,
+            continue: (followUp) =>
+               continueSession(live, policyState, effectiveMaxTurns, effectiveMaxToolCalls, { ...followUp, systemPrompt }),
+            dispose: () => live.dispose(),
+         },
+      };
+   } finally {
+      if (!keepSession) session?.dispose();
    }
 }
+
+async function continueSession(
+   session: ReplicantSessionLike,
+   policyState: ReplicantPolicyState,
+   maxTurns: number,
+   maxToolCalls: number,
+   options: ContinueReplicantSessionOptions & { systemPrompt: string },
+): Promise<ReplicantSubprocessResult> {
+   policyState.turnIndex = 0;
+   policyState.violation = undefined;
+   policyState.turnBudgetBlocked = undefined;
+   policyState.budgetExhausted = undefined;
+   if (options.budget === "refresh") policyState.toolCalls = 0;
+
+   const details = createDetails(maxTurns, maxToolCalls, policyState.toolCalls);
+   return runPrompts(session, policyState, details, options);
+}
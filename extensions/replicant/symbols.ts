@@ -0,0 +1,453 @@
+import { createHash, randomBytes } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { getAgentDir, type ExtensionAPI, type ExtensionFactory } from "@mariozechner/pi-coding-agent";
+import { Type } from "@sinclair/typebox";
+import { readHeadCommit } from "./git";
+import { matchesGlob } from "./sensitive";
+
+export const SYMBOLS_TOOL = "symbols";
+
+const SYMBOL_INDEX_VERSION = 2;
+const MAX_INDEXED_FILES = 20_000;
+const MAX_INDEXED_FILE_BYTES = 1024 * 1024;
+const MAX_BLOCK_SCAN_LINES = 2000;
+const MAX_DEFINITION_RESULTS = 50;
+const MAX_REFERENCE_RESULTS = 100;
+const MAX_REFERENCE_LINE_CHARS = 200;
+const MAX_CACHED_INDEXES = 50;
+const SKIPPED_DIRS = new Set([
+   ".git",
+   "node_modules",
+   "vendor",
+   "dist",
+   "build",
+   "out",
+   "target",
+   "coverage",
+   "__pycache__",
+   ".venv",
+   "venv",
+   ".next",
+]);
+
+type SymbolLanguage = "typescript" | "python" | "go" | "rust";
+
+export type SymbolKind =
+   | "function"
+   | "method"
+   | "class"
+   | "interface"
+   | "type"
+   | "enum"
+   | "const"
+   | "variable"
+   | "struct"
+   | "trait"
+   | "module"
+   | "macro";
+
+export interface SymbolDefinition {
+   name: string;
+   kind: SymbolKind;
+   path: string;
+   startLine: number;
+   endLine: number;
+}
+
+export interface SymbolIndex {
+   version: number;
+   commit?: string;
+   createdAt: number;
+   files: string[];
+   symbols: SymbolDefinition[];
+}
+
+export interface SymbolReference {
+   path: string;
+   line: number;
+   text: string;
+}
+
+export interface LoadSymbolIndexOptions {
+   root: string;
+   commit?: string;
+   dir: string;
+   excludeGlobs?: string[];
+   now?: () => number;
+}
+
+export interface SymbolsToolOptions {
+   cwd: string;
+   repoPath: string;
+   rev: string;
+   tools: string[];
+   indexDir?: string;
+   excludeGlobs?: string[];
+}
+
+type DefinitionPattern = {
+   pattern: RegExp;
+   kind: SymbolKind | ((match: RegExpMatchArray) => SymbolKind);
+};
+
+const LANGUAGE_BY_EXTENSION: Record<string, SymbolLanguage> = {
+   ".ts": "typescript",
+   ".tsx": "typescript",
+   ".mts": "typescript",
+   ".cts": "typescript",
+   ".js": "typescript",
+   ".jsx": "typescript",
+   ".mjs": "typescript",
+   ".cjs": "typescript",
+   ".py": "python",
+   ".go": "go",
+   ".rs": "rust",
+};
+
+const RUST_ITEM_KINDS: Record<string, SymbolKind> = {
+   struct: "struct",
+   union: "struct",
+   enum: "enum",
+   trait: "trait",
+   mod: "module",
+   type: "type",
+};
+
+const CONTROL_KEYWORDS = new Set(["if", "for", "while", "switch", "catch", "function", "return", "with", "else", "do", "constructor"]);
+
+const JS_NAME = "(?<name>[A-Za-z_$][\\w$]*)";
+const RUST_VIS = "(?:pub(?:\\([^)]*\\))?\\s+)?";
+
+const DEFINITION_PATTERNS: Record<SymbolLanguage, DefinitionPattern[]> = {
+   typescript: [
+      {
+         pattern: new RegExp(`^\\s*(?:export\\s+(?:default\\s+)?)?(?:declare\\s+)?(?:async\\s+)?function\\s*\\*?\\s*${JS_NAME}`),
+         kind: "function",
+      },
+      { pattern: new RegExp(`^\\s*(?:export\\s+(?:default\\s+)?)?(?:declare\\s+)?(?:abstract\\s+)?class\\s+${JS_NAME}`), kind: "class" },
+      { pattern: new RegExp(`^\\s*(?:export\\s+)?(?:declare\\s+)?interface\\s+${JS_NAME}`), kind: "interface" },
+      { pattern: new RegExp(`^\\s*(?:export\\s+)?(?:declare\\s+)?type\\s+${JS_NAME}\\s*(?:<[^=]*>)?\\s*=`), kind: "type" },
+      { pattern: new RegExp(`^\\s*(?:export\\s+)?(?:declare\\s+)?(?:const\\s+)?enum\\s+${JS_NAME}`), kind: "enum" },
+      {
+         pattern: new RegExp(`^(?:export\\s+)?(?:declare\\s+)?(?<keyword>const|let|var)\\s+${JS_NAME}`),
+         kind: (match) => (match.groups?.keyword === "const" ? "const" : "variable"),
+      },
+      {
+         pattern: new RegExp(
+            `^\\s+(?:(?:public|private|protected|static|readonly|override|abstract|async|get|set)\\s+)*\\*?${JS_NAME}\\s*(?:<[^>]*>)?\\([^)]*\\)\\s*(?::[^{;=]+)?\\{\\s*$`,
+         ),
+         kind: "method",
+      },
+   ],
+   python: [
+      { pattern: /^(?<indent>\s*)(?:async\s+)?def\s+(?<name>[A-Za-z_]\w*)/, kind: (match) => (match.groups?.indent ? "method" : "function") },
+      { pattern: /^\s*class\s+(?<name>[A-Za-z_]\w*)/, kind: "class" },
+      { pattern: /^(?<name>[A-Z_][A-Z0-9_]*)\s*(?::[^=]+)?=/, kind: "const" },
+   ],
+   go: [
+      { pattern: /^func\s+(?<receiver>\([^)]*\)\s*)?(?<name>[A-Za-z_]\w*)/, kind: (match) => (match.groups?.receiver ? "method" : "function") },
+      {
+         pattern: /^\s*type\s+(?<name>[A-Za-z_]\w*)(?:\[[^\]]*\])?\s+(?<keyword>struct|interface)?/,
+         kind: (match) => (match.groups?.keyword === "struct" ? "struct" : match.groups?.keyword === "interface" ? "interface" : "type"),
+      },
+      { pattern: /^(?<keyword>const|var)\s+(?<name>[A-Za-z_]\w*)/, kind: (match) => (match.groups?.keyword === "const" ? "const" : "variable") },
+   ],
+   rust: [
+      {
+         pattern: new RegExp(
+            `^(?<indent>\\s*)${RUST_VIS}(?:default\\s+)?(?:const\\s+)?(?:async\\s+)?(?:unsafe\\s+)?(?:extern\\s+"[^"]*"\\s+)?fn\\s+(?<name>[A-Za-z_]\\w*)`,
+         ),
+         kind: (match) => (match.groups?.indent ? "method" : "function"),
+      },
+      {
+         pattern: new RegExp(`^\\s*${RUST_VIS}(?<keyword>struct|enum|trait|type|mod|union)\\s+(?<name>[A-Za-z_]\\w*)`),
+         kind: (match) => RUST_ITEM_KINDS[match.groups?.keyword ?? ""] ?? "type",
+      },
+      { pattern: new RegExp(`^\\s*${RUST_VIS}(?:const|static)\\s+(?:mut\\s+)?(?<name>[A-Za-z_]\\w*)`), kind: "const" },
+      { pattern: /^\s*macro_rules!\s*(?<name>[A-Za-z_]\w*)/, kind: "macro" },
+   ],
+};
+
+export function defaultSymbolIndexDir(): string {
+   return path.join(getAgentDir(), "replicant", "cache", "symbols");
+}
+
+export function symbolLanguageFor(filePath: string): SymbolLanguage | undefined {
+   return LANGUAGE_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+}
+
+function stripStrings(line: string): string {
+   return line.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`(?:[^`\\]|\\.)*`/g, '""').replace(/\/\/.*$/, "");
+}
+
+function braceBlockEnd(lines: string[], startIndex: number): number {
+   let depth = 0;
+   let opened = false;
+   const limit = Math.min(lines.length, startIndex + MAX_BLOCK_SCAN_LINES);
+   for (let index = startIndex; index < limit; index++) {
+      const line = stripStrings(lines[index]);
+      for (const char of line) {
+         if (char === "{") {
+            depth += 1;
+            opened = true;
+         } else if (char === "}") {
+            depth -= 1;
+         }
+      }
+      if (opened && depth <= 0) return index;
+      if (!opened && (/;\s*$/.test(line) || !/[{([=,>:|&]\s*$/.test(line))) return index;
+   }
+   return startIndex;
+}
+
+function indentBlockEnd(lines: string[], startIndex: number): number {
+   const indent = lines[startIndex].match(/^\s*/)?.[0].length ?? 0;
+   let end = startIndex;
+   const limit = Math.min(lines.length, startIndex + MAX_BLOCK_SCAN_LINES);
+   for (let index = startIndex + 1; index < limit; index++) {
+      const line = lines[index];
+      if (!line.trim()) continue;
+      if ((line.match(/^\s*/)?.[0].length ?? 0) <= indent) break;
+      end = index;
+   }
+   return end;
+}
+
+export function extractSymbols(relativePath: string, content: string): SymbolDefinition[] {
+   const language = symbolLanguageFor(relativePath);
+   if (!language) return [];
+   const lines = content.split(/\r?\n/);
+   const symbols: SymbolDefinition[] = [];
+   for (const [index, line] of lines.entries()) {
+      for (const { pattern, kind } of DEFINITION_PATTERNS[language]) {
+         const match = line.match(pattern);
+         if (!match) continue;
+         const name = match.groups?.name;
+         if (!name || CONTROL_KEYWORDS.has(name)) continue;
+         const endIndex = language === "python" ? indentBlockEnd(lines, index) : braceBlockEnd(lines, index);
+         symbols.push({
+            name,
+            kind: typeof kind === "function" ? kind(match) : kind,
+            path: relativePath,
+            startLine: index + 1,
+            endLine: Math.max(index, endIndex) + 1,
+         });
+         break;
+      }
+   }
+   return symbols;
+}
+
+async function listSourceFiles(root: string, excludeGlobs: string[]): Promise<string[]> {
+   const files: string[] = [];
+   const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+         if (files.length >= MAX_INDEXED_FILES) return;
+         if (entry.name.startsWith(".")) continue;
+         const entryPath = path.join(dir, entry.name);
+         if (entry.isDirectory()) {
+            if (!SKIPPED_DIRS.has(entry.name)) await walk(entryPath);
+         } else if (entry.isFile() && symbolLanguageFor(entry.name)) {
+            const relativePath = path.relative(root, entryPath).split(path.sep).join("/");
+            if (!excludeGlobs.some((glob) => matchesGlob(relativePath, glob))) files.push(relativePath);
+         }
+      }
+   };
+   await walk(root);
+   return files;
+}
+
+async function readSourceFile(root: string, relativePath: string): Promise<string | undefined> {
+   const filePath = path.join(root, relativePath);
+   const stat = await fs.stat(filePath).catch(() => undefined);
+   if (!stat?.isFile() || stat.size > MAX_INDEXED_FILE_BYTES) return undefined;
+   return fs.readFile(filePath, "utf8").catch(() => undefined);
+}
+
+export async function buildSymbolIndex(
+   root: string,
+   commit?: string,
+   now = Date.now(),
+   excludeGlobs: string[] = [],
+): Promise<SymbolIndex> {
+   const files = await listSourceFiles(root, excludeGlobs);
+   const symbols: SymbolDefinition[] = [];
+   for (const file of files) {
+      const content = await readSourceFile(root, file);
+      if (content !== undefined) symbols.push(...extractSymbols(file, content));
+   }
+   return { version: SYMBOL_INDEX_VERSION, commit, createdAt: now, files, symbols };
+}
+
+function indexFilePath(dir: string, commit: string, excludeGlobs: string[]): string {
+   if (excludeGlobs.length === 0) return path.join(dir, `${commit}.json`);
+   const fingerprint = createHash("sha256").update(JSON.stringify([...excludeGlobs].sort())).digest("hex").slice(0, 12);
+   return path.join(dir, `${commit}-${fingerprint}.json`);
+}
+
+async function readCachedIndex(filePath: string): Promise<SymbolIndex | undefined> {
+   try {
+      return JSON.parse(await fs.readFile(filePath, "utf8")) as SymbolIndex;
+   } catch {
+      return undefined;
+   }
+}
+
+async function pruneSymbolIndexes(dir: string, keep: string): Promise<void> {
+   const entries = await fs.readdir(dir).catch(() => [] as string[]);
+   const indexes: Array<{ path: string; mtimeMs: number }> = [];
+   for (const name of entries) {
+      if (!name.endsWith(".json")) continue;
+      const filePath = path.join(dir, name);
+      const stat = await fs.stat(filePath).catch(() => undefined);
+      if (stat) indexes.push({ path: filePath, mtimeMs: stat.mtimeMs });
+   }
+   indexes.sort((a, b) => b.mtimeMs - a.mtimeMs);
+   for (const [position, index] of indexes.entries()) {
+      if (position >= MAX_CACHED_INDEXES && index.path !== keep) await fs.rm(index.path, { force: true });
+   }
+}
+
+export async function loadSymbolIndex(options: LoadSymbolIndexOptions): Promise<SymbolIndex> {
+   const now = options.now ?? Date.now;
+   const excludeGlobs = options.excludeGlobs ?? [];
+   if (!options.commit) return buildSymbolIndex(options.root, undefined, now(), excludeGlobs);
+
+   const filePath = indexFilePath(options.dir, options.commit, excludeGlobs);
+   const cached = await readCachedIndex(filePath);
+   if (cached?.version === SYMBOL_INDEX_VERSION && cached.commit === options.commit) return cached;
+
+   const index = await buildSymbolIndex(options.root, options.commit, now(), excludeGlobs);
+   await fs.mkdir(options.dir, { recursive: true });
+   const tmpPath = `${filePath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+   await fs.writeFile(tmpPath, JSON.stringify(index), "utf8");
+   await fs.rename(tmpPath, filePath);
+   await pruneSymbolIndexes(options.dir, filePath);
+   return index;
+}
+
+function withinPrefix(filePath: string, prefix?: string): boolean {
+   return !prefix || filePath === prefix || filePath.startsWith(`${prefix}/`);
+}
+
+export function findDefinitions(index: SymbolIndex, name: string, prefix?: string): SymbolDefinition[] {
+   const inScope = index.symbols.filter((symbol) => withinPrefix(symbol.path, prefix));
+   const exact = inScope.filter((symbol) => symbol.name === name);
+   if (exact.length > 0) return exact;
+   const lower = name.toLowerCase();
+   return inScope.filter((symbol) => symbol.name.toLowerCase() === lower);
+}
+
+function escapeRegExp(value: string): string {
+   return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export async function findReferences(
+   root: string,
+   index: SymbolIndex,
+   name: string,
+   prefix?: string,
+   limit = MAX_REFERENCE_RESULTS,
+): Promise<{ references: SymbolReference[]; truncated: boolean }> {
+   const pattern = new RegExp(`(?<![\\w$])${escapeRegExp(name)}(?![\\w$])`);
+   const references: SymbolReference[] = [];
+   for (const file of index.files) {
+      if (!withinPrefix(file, prefix)) continue;
+      const content = await readSourceFile(root, file);
+      if (content === undefined || !content.includes(name)) continue;
+      for (const [lineIndex, line] of content.split(/\r?\n/).entries()) {
+         if (!pattern.test(line)) continue;
+         if (references.length >= limit) return { references, truncated: true };
+         const text = line.trim();
+         references.push({
+            path: file,
+            line: lineIndex + 1,
+            text: text.length > MAX_REFERENCE_LINE_CHARS ? `${text.slice(0, MAX_REFERENCE_LINE_CHARS - 3)}...` : text,
+         });
+      }
+   }
+   return { references, truncated: false };
+}
+
+function toPrefix(cwd: string, rawPath?: string): string | undefined {
+   if (rawPath === undefined) return undefined;
+   const relative = path.relative(cwd, path.resolve(cwd, rawPath.trim().replace(/^@/, "")));
+   if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new Error(`Path is outside the explored repository: ${rawPath}`);
+   }
+   return relative ? relative.split(path.sep).join("/") : undefined;
+}
+
+export function formatDefinitions(name: string, definitions: SymbolDefinition[]): string {
+   if (definitions.length === 0) return `No definitions of ${name} found in the symbol index; fall back to grep.`;
+   const shown = definitions.slice(0, MAX_DEFINITION_RESULTS);
+   const lines = shown.map((symbol) => `${symbol.path}:${symbol.startLine}-${symbol.endLine} ${symbol.kind} ${symbol.name}`);
+   if (definitions.length > shown.length) lines.push(`[${definitions.length - shown.length} more definitions omitted; pass path to narrow]`);
+   return lines.join("\n");
+}
+
+export function formatReferences(name: string, result: { references: SymbolReference[]; truncated: boolean }): string {
+   if (result.references.length === 0) return `No references to ${name} found in indexed source files.`;
+   const lines = result.references.map((reference) => `${reference.path}:${reference.line}: ${reference.text}`);
+   if (result.truncated) lines.push(`[more than ${result.references.length} references; pass path to narrow]`);
+   return lines.join("\n");
+}
+
+async function resolveIndexCommit(pi: ExtensionAPI, options: SymbolsToolOptions): Promise<string | undefined> {
+   if (/^[0-9a-f]{40,64}$/.test(options.rev)) return options.rev;
+   return readHeadCommit(pi, options.repoPath);
+}
+
+const SymbolsParams = Type.Object({
+   name: Type.String({ pattern: "^[A-Za-z_$][\\w$]*$", maxLength: 200, description: "Identifier to look up, e.g. createServer" }),
+   lookup: Type.Optional(
+      Type.Union([Type.Literal("definition"), Type.Literal("references")], {
+         description: "definition (default) lists where the symbol is defined; references lists lines that mention it",
+      }),
+   ),
+   path: Type.Optional(Type.String({ description: "Limit results to this file or directory (relative to the clone root)" })),
+});
+
+export function createSymbolsExtension(options: SymbolsToolOptions): ExtensionFactory {
+   return (pi) => {
+      if (!options.tools.includes(SYMBOLS_TOOL)) return;
+      let indexPromise: Promise<SymbolIndex> | undefined;
+      const getIndex = () => {
+         indexPromise ??= resolveIndexCommit(pi, options).then((commit) =>
+            loadSymbolIndex({
+               root: options.cwd,
+               commit,
+               dir: options.indexDir ?? defaultSymbolIndexDir(),
+               excludeGlobs: options.excludeGlobs,
+            }),
+         );
+         indexPromise.catch(() => {
+            indexPromise = undefined;
+         });
+         return indexPromise;
+      };
+
+      pi.registerTool({
+         name: SYMBOLS_TOOL,
+         label: "Symbols",
+         description:
+            "Look up where a function, class, type or export is defined (TS/JS, Python, Go, Rust), or which lines reference it, with file and line ranges. Faster than repeated grep.",
+         parameters: SymbolsParams,
+         async execute(_toolCallId, input) {
+            const prefix = toPrefix(options.cwd, input.path);
+            const index = await getIndex();
+            const text =
+               input.lookup === "references"
+                  ? formatReferences(input.name, await findReferences(options.cwd, index, input.name, prefix))
+                  : formatDefinitions(input.name, findDefinitions(index, input.name, prefix));
+            return {
+               content: [{ type: "text", text }],
+               details: { commit: index.commit, indexedFiles: index.files.length, indexedSymbols: index.symbols.length },
+            };
+         },
+      });
+   };
+}
@@ -0,0 +1,240 @@
+import { randomBytes } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { getAgentDir } from "@mariozechner/pi-coding-agent";
+import type { ReplicantSubprocessDetails } from "./subproc";
+
+const TRANSCRIPT_VERSION = 1;
+const HEADER_READ_BYTES = 256 * 1024;
+
+export interface TranscriptPolicyBlock {
+   toolName: string;
+   input: unknown;
+   reason: string;
+   turnIndex: number;
+   timestamp: number;
+}
+
+export interface ReplicantTranscriptOptions {
+   dir: string;
+   label: string;
+   maxResultBytes: number;
+   maxFiles: number;
+   meta?: Record<string, unknown>;
+}
+
+export interface WriteTranscriptInput extends ReplicantTranscriptOptions {
+   systemPrompt: string;
+   prompts: string[];
+   messages: unknown[];
+   policyBlocks: TranscriptPolicyBlock[];
+   details: ReplicantSubprocessDetails;
+   now?: () => number;
+}
+
+export type TranscriptEntry =
+   | {
+        type: "header";
+        version: number;
+        createdAt: number;
+        label: string;
+        meta?: Record<string, unknown>;
+        systemPrompt: string;
+     }
+   | { type: "prompt"; text: string }
+   | { type: "message"; index: number; message: unknown }
+   | ({ type: "policy_block" } & TranscriptPolicyBlock)
+   | {
+        type: "summary";
+        phase: ReplicantSubprocessDetails["phase"];
+        turns: number;
+        toolCalls: number;
+        toolErrors: number;
+        stopReason?: string;
+        errorMessage?: string;
+        totalTokens?: number;
+        cost?: number;
+     };
+
+export interface TranscriptSummary {
+   path: string;
+   createdAt: number;
+   label: string;
+   meta?: Record<string, unknown>;
+   bytes: number;
+}
+
+export function defaultTranscriptDir(): string {
+   return path.join(getAgentDir(), "replicant", "logs");
+}
+
+function fileSlug(label: string): string {
+   return (
+      label
+         .replace(/[^A-Za-z0-9_.-]+/g, "_")
+         .replace(/^_+|_+$/g, "")
+         .slice(0, 60) || "run"
+   );
+}
+
+function capText(text: string, maxBytes: number): string {
+   const bytes = Buffer.byteLength(text);
+   if (bytes <= maxBytes) return text;
+   return `${Buffer.from(text).subarray(0, maxBytes).toString("utf8")}\n[transcript: ${bytes - maxBytes} more bytes omitted]`;
+}
+
+function capMessage(message: unknown, maxBytes: number): unknown {
+   const value = message as { role?: unknown; content?: unknown; details?: unknown };
+   if (value?.role !== "toolResult") return message;
+   const content = Array.isArray(value.content)
+      ? value.content.map((block: any) => {
+           if (block?.type === "text" && typeof block.text === "string") return { ...block, text: capText(block.text, maxBytes) };
+           if (block?.type === "image") return { type: "image", mimeType: block.mimeType, omitted: true };
+           return block;
+        })
+      : value.content;
+   const details = value.details === undefined || JSON.stringify(value.details).length <= maxBytes ? value.details : "[omitted]";
+   return { ...value, content, details };
+}
+
+export async function writeTranscript(input: WriteTranscriptInput): Promise<string> {
+   const createdAt = (input.now ?? Date.now)();
+   const stamp = new Date(createdAt).toISOString().replace(/[-:]/g, "").replace(/\..*$/, "").replace("T", "-");
+   const filePath = path.join(input.dir, `${stamp}-${fileSlug(input.label)}-${randomBytes(3).toString("hex")}.jsonl`);
+
+   const entries: TranscriptEntry[] = [
+      {
+         type: "header",
+         version: TRANSCRIPT_VERSION,
+         createdAt,
+         label: input.label,
+         meta: input.meta,
+         systemPrompt: input.systemPrompt,
+      },
+      ...input.prompts.map((text) => ({ type: "prompt" as const, text })),
+      ...input.messages.map((message, index) => ({
+         type: "message" as const,
+         index,
+         message: capMessage(message, input.maxResultBytes),
+      })),
+      ...input.policyBlocks.map((block) => ({ type: "policy_block" as const, ...block })),
+      {
+         type: "summary",
+         phase: input.details.phase,
+         turns: input.details.turns,
+         toolCalls: input.details.toolCalls,
+         toolErrors: input.details.toolErrors,
+         stopReason: input.details.stopReason,
+         errorMessage: input.details.errorMessage,
+         totalTokens: input.details.usage?.totalTokens,
+         cost: input.details.usage?.cost,
+      },
+   ];
+
+   await fs.mkdir(input.dir, { recursive: true });
+   await fs.writeFile(filePath, `${entries.map((entry) => JSON.stringify(entry)).join("\n")}\n`, "utf8");
+   await pruneTranscripts(input.dir, input.maxFiles, filePath);
+   return filePath;
+}
+
+async function listTranscriptFiles(dir: string): Promise<Array<{ path: string; mtimeMs: number; bytes: number }>> {
+   const files: Array<{ path: string; mtimeMs: number; bytes: number }> = [];
+   for (const name of await fs.readdir(dir).catch(() => [] as string[])) {
+      if (!name.endsWith(".jsonl")) continue;
+      const filePath = path.join(dir, name);
+      const stat = await fs.stat(filePath).catch(() => undefined);
+      if (stat?.isFile()) files.push({ path: filePath, mtimeMs: stat.mtimeMs, bytes: stat.size });
+   }
+   return files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+}
+
+export async function pruneTranscripts(dir: string, maxFiles: number, keep?: string): Promise<void> {
+   const files = await listTranscriptFiles(dir);
+   for (const [index, file] of files.entries()) {
+      if (index >= maxFiles && file.path !== keep) await fs.rm(file.path, { force: true });
+   }
+}
+
+async function readHeader(filePath: string): Promise<Extract<TranscriptEntry, { type: "header" }> | undefined> {
+   const handle = await fs.open(filePath, "r").catch(() => undefined);
+   if (!handle) return undefined;
+   try {
+      const buffer = Buffer.alloc(HEADER_READ_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      const firstLine = buffer.subarray(0, bytesRead).toString("utf8").split("\n")[0];
+      const header = JSON.parse(firstLine) as TranscriptEntry;
+      return header.type === "header" && header.version === TRANSCRIPT_VERSION ? header : undefined;
+   } catch {
+      return undefined;
+   } finally {
+      await handle.close();
+   }
+}
+
+export async function listTranscripts(dir: string, limit: number): Promise<TranscriptSummary[]> {
+   const summaries: TranscriptSummary[] = [];
+   for (const file of await listTranscriptFiles(dir)) {
+      if (summaries.length >= limit) break;
+      const header = await readHeader(file.path);
+      if (!header) continue;
+      summaries.push({ path: file.path, createdAt: header.createdAt, label: header.label, meta: header.meta, bytes: file.bytes });
+   }
+   return summaries;
+}
+
+export async function readTranscript(filePath: string): Promise<TranscriptEntry[]> {
+   const entries: TranscriptEntry[] = [];
+   for (const line of (await fs.readFile(filePath, "utf8")).split("\n")) {
+      if (!line.trim()) continue;
+      try {
+         entries.push(JSON.parse(line) as TranscriptEntry);
+      } catch {
+         continue;
+      }
+   }
+   return entries;
+}
+
+function messageText(message: any): string {
+   if (typeof message?.content === "string") return message.content;
+   if (!Array.isArray(message?.content)) return "";
+   return message.content
+      .map((block: any) => {
+         if (block?.type === "text") return block.text;
+         if (block?.type === "thinking") return `(thinking) ${block.thinking}`;
+         if (block?.type === "toolCall") return `-> ${block.name} ${JSON.stringify(block.arguments)}`;
+         if (block?.type === "image") return "(image)";
+         return "";
+      })
+      .filter(Boolean)
+      .join("\n");
+}
+
+export function formatTranscript(entries: TranscriptEntry[]): string {
+   const sections: string[] = [];
+   for (const entry of entries) {
+      if (entry.type === "header") {
+         sections.push(
+            `# ${entry.label} (${new Date(entry.createdAt).toISOString()})`,
+            ...Object.entries(entry.meta ?? {}).map(([key, value]) => `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`),
+            `## system prompt\n${entry.systemPrompt}`,
+         );
+      } else if (entry.type === "prompt") {
+         sections.push(`## prompt\n${entry.text}`);
+      } else if (entry.type === "message") {
+         const message = entry.message as { role?: string; toolName?: string; isError?: boolean };
+         const role =
+            message.role === "toolResult" ? `tool result: ${message.toolName ?? "unknown"}${message.isError ? " (error)" : ""}` : message.role;
+         sections.push(`## [${entry.index}] ${role ?? "message"}\n${messageText(message)}`);
+      } else if (entry.type === "policy_block") {
+         sections.push(`## policy block (turn ${entry.turnIndex + 1}): ${entry.toolName}\n${entry.reason}`);
+      } else if (entry.type === "summary") {
+         sections.push(
+            `## summary\nphase=${entry.phase} turns=${entry.turns} tool calls=${entry.toolCalls} errors=${entry.toolErrors}` +
+               (entry.stopReason ? ` stop=${entry.stopReason}` : "") +
+               (entry.errorMessage ? `\nerror: ${entry.errorMessage}` : ""),
+         );
+      }
+   }
+   return sections.join("\n\n");
+}
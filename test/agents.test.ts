@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import test from "node:test";
+import { DEFAULT_AGENT, ReplicantAgentError, loadAgentProfiles, selectAgent } from "../extensions/replicant/agents";
+
+async function makeDirs(t: { after: (fn: () => Promise<void>) => void }) {
+   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-agents-"));
+   t.after(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+   });
+   const userDir = path.join(tmpDir, "user");
+   const projectDir = path.join(tmpDir, "project");
+   await fs.mkdir(userDir, { recursive: true });
+   await fs.mkdir(projectDir, { recursive: true });
+   return { tmpDir, userDir, projectDir };
+}
+
+test("loadAgentProfiles: parses frontmatter and lets project profiles override user profiles", async (t) => {
+   const { tmpDir, userDir, projectDir } = await makeDirs(t);
+   await fs.writeFile(
+      path.join(userDir, "scout.md"),
+      ["---", "name: scout", "description: user scout", "tools: read, grep", "maxTurns: 4", "---", "User prompt."].join("\n"),
+      "utf8",
+   );
+   await fs.writeFile(
+      path.join(projectDir, "scout.md"),
+      ["---", "name: scout", "description: project scout", "model: anthropic/claude-haiku-4-5", "maxToolCalls: 12", "---", "Project prompt."].join("\n"),
+      "utf8",
+   );
+
+   const profiles = await loadAgentProfiles({ cwd: tmpDir, userDir, projectDir });
+   const scout = selectAgent(profiles, "scout");
+
+   assert.deepEqual(profiles.diagnostics, []);
+   assert.equal(scout.source, "project");
+   assert.equal(scout.description, "project scout");
+   assert.equal(scout.model, "anthropic/claude-haiku-4-5");
+   assert.equal(scout.maxToolCalls, 12);
+   assert.equal(scout.maxTurns, undefined);
+   assert.deepEqual(scout.tools, ["read", "grep", "find", "ls", "symbols"]);
+   assert.equal(scout.systemPrompt, "Project prompt.");
+   assert.equal(selectAgent(profiles), DEFAULT_AGENT);
+});
+
+test("loadAgentProfiles: rejects tools outside the read-only allowlist", async (t) => {
+   const { tmpDir, userDir, projectDir } = await makeDirs(t);
+   await fs.writeFile(
+      path.join(projectDir, "writer.md"),
+      ["---", "name: writer", "description: edits files", "tools: read, bash, edit", "---", "Prompt."].join("\n"),
+      "utf8",
+   );
+   await fs.writeFile(
+      path.join(projectDir, "historian.md"),
+      ["---", "name: historian", "description: reads history", "tools: read, grep, git_log, git_blame", "---", "Prompt."].join("\n"),
+      "utf8",
+   );
+
+   const profiles = await loadAgentProfiles({ cwd: tmpDir, userDir, projectDir });
+
+   assert.equal(profiles.diagnostics.length, 1);
+   assert.match(profiles.diagnostics[0].message, /tools not allowed for replicant: bash, edit/);
+   assert.deepEqual(selectAgent(profiles, "historian").tools, ["read", "grep", "git_log", "git_blame"]);
+   assert.throws(
+      () => selectAgent(profiles, "writer"),
+      (err: unknown) => {
+         assert.ok(err instanceof ReplicantAgentError);
+         assert.match(err.message, /profile "writer" is invalid/);
+         return true;
+      },
+   );
+});
+
+test("loadAgentProfiles: invalid override of the default profile does not fall back", async (t) => {
+   const { tmpDir, userDir, projectDir } = await makeDirs(t);
+   await fs.writeFile(
+      path.join(userDir, "replicant.md"),
+      ["---", "name: replicant", "description: broken", "maxTurns: 0", "---", "Prompt."].join("\n"),
+      "utf8",
+   );
+
+   const profiles = await loadAgentProfiles({ cwd: tmpDir, userDir, projectDir });
+
+   assert.throws(() => selectAgent(profiles), /maxTurns must be a positive integer/);
+});
+
+test("selectAgent: unknown profile lists available profiles", async (t) => {
+   const { tmpDir, userDir, projectDir } = await makeDirs(t);
+   const profiles = await loadAgentProfiles({ cwd: tmpDir, userDir, projectDir });
+
+   assert.throws(
+      () => selectAgent(profiles, "missing"),
+      (err: unknown) => {
+         assert.ok(err instanceof ReplicantAgentError);
+         assert.equal(err.remediation, "Available profiles: replicant.");
+         return true;
+      },
+   );
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import test from "node:test";
+import {
+   answerCacheKey,
+   readCachedAnswer,
+   writeCachedAnswer,
+   type AnswerCacheOptions,
+} from "../extensions/replicant/cache";
+import type { ReplicantSubprocessDetails } from "../extensions/replicant/subproc";
+
+const COMMIT_A = "a".repeat(40);
+const COMMIT_B = "b".repeat(40);
+const AGENT = { name: "replicant", systemPrompt: "sys", tools: ["read", "grep"] };
+
+function makeDetails(): ReplicantSubprocessDetails {
+   return {
+      phase: "done",
+      message: "completed",
+      toolCalls: 2,
+      toolErrors: 0,
+      turns: 2,
+      maxTurns: 10,
+      maxToolCalls: 60,
+      events: [],
+   };
+}
+
+async function makeOptions(t: { after: (fn: () => Promise<void>) => void }, overrides: Partial<AnswerCacheOptions> = {}) {
+   const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-cache-"));
+   t.after(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+   });
+   let now = 1_000_000;
+   const options: AnswerCacheOptions = {
+      dir,
+      ttlMs: 60_000,
+      maxEntries: 10,
+      maxBytes: 1024 * 1024,
+      now: () => now,
+      ...overrides,
+   };
+   return { options, advance: (ms: number) => (now += ms) };
+}
+
+function entryFor(key: string, commit: string, task = "where is the router defined") {
+   return {
+      key,
+      repo: "acme/router",
+      clonePath: "/tmp/acme-router",
+      commit,
+      task,
+      agent: AGENT.name,
+      model: "anthropic/claude-sonnet-4-5",
+      finalText: `answer for ${task}`,
+      details: makeDetails(),
+   };
+}
+
+test("answerCacheKey: normalizes task whitespace and varies by commit, agent, model and budget", () => {
+   const base = answerCacheKey({ commit: COMMIT_A, task: "where is  X\n defined", agent: AGENT, model: "m" });
+
+   assert.equal(base, answerCacheKey({ commit: COMMIT_A, task: " where is X defined ", agent: AGENT, model: "m" }));
+   assert.notEqual(base, answerCacheKey({ commit: COMMIT_B, task: "where is X defined", agent: AGENT, model: "m" }));
+   assert.notEqual(base, answerCacheKey({ commit: COMMIT_A, task: "where is X defined", agent: AGENT, model: "other" }));
+   assert.notEqual(
+      base,
+      answerCacheKey({ commit: COMMIT_A, task: "where is X defined", agent: { ...AGENT, systemPrompt: "changed" }, model: "m" }),
+   );
+
+   const budgeted = answerCacheKey({ commit: COMMIT_A, task: "where is X defined", agent: AGENT, model: "m", budget: { maxTurns: 8, maxToolCalls: 40 } });
+   assert.notEqual(base, budgeted);
+   assert.notEqual(
+      budgeted,
+      answerCacheKey({ commit: COMMIT_A, task: "where is X defined", agent: AGENT, model: "m", budget: { maxTurns: 8, maxToolCalls: 80 } }),
+   );
+});
+
+test("readCachedAnswer: returns stored answers until the TTL expires", async (t) => {
+   const { options, advance } = await makeOptions(t);
+   const key = answerCacheKey({ commit: COMMIT_A, task: "task", agent: AGENT });
+   await writeCachedAnswer(options, entryFor(key, COMMIT_A));
+
+   const hit = await readCachedAnswer(options, key, COMMIT_A);
+   assert.equal(hit?.finalText, "answer for where is the router defined");
+   assert.equal(hit?.details.toolCalls, 2);
+
+   advance(60_001);
+   assert.equal(await readCachedAnswer(options, key, COMMIT_A), undefined);
+   assert.deepEqual(await fs.readdir(options.dir), []);
+});
+
+test("writeCachedAnswer: drops entries for the same clone once HEAD moves", async (t) => {
+   const { options } = await makeOptions(t);
+   const oldKey = answerCacheKey({ commit: COMMIT_A, task: "task", agent: AGENT });
+   const newKey = answerCacheKey({ commit: COMMIT_B, task: "task", agent: AGENT });
+
+   await writeCachedAnswer(options, entryFor(oldKey, COMMIT_A));
+   await writeCachedAnswer(options, entryFor(newKey, COMMIT_B));
+
+   assert.deepEqual(await fs.readdir(options.dir), [`${newKey}.json`]);
+});
+
+test("writeCachedAnswer: evicts least recently used entries beyond maxEntries", async (t) => {
+   const { options, advance } = await makeOptions(t, { maxEntries: 2 });
+   const keys = ["one", "two", "three"].map((task) => answerCacheKey({ commit: COMMIT_A, task, agent: AGENT }));
+
+   await writeCachedAnswer(options, entryFor(keys[0], COMMIT_A, "one"));
+   advance(10);
+   await writeCachedAnswer(options, entryFor(keys[1], COMMIT_A, "two"));
+   advance(10);
+   await readCachedAnswer(options, keys[0], COMMIT_A);
+   advance(10);
+   await writeCachedAnswer(options, entryFor(keys[2], COMMIT_A, "three"));
+
+   const remaining = (await fs.readdir(options.dir)).sort();
+   assert.deepEqual(remaining, [`${keys[0]}.json`, `${keys[2]}.json`].sort());
+});
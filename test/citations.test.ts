@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import test from "node:test";
+import {
+   annotateInvalidCitations,
+   buildCitationRepairPrompt,
+   extractCitations,
+   hasTooManyInvalidCitations,
+   verifyCitations,
+} from "../extensions/replicant/citations";
+import { git, makePi } from "./helpers";
+
+async function makeClone(t: { after: (fn: () => Promise<void>) => void }) {
+   const root = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-citations-"));
+   t.after(async () => {
+      await fs.rm(root, { recursive: true, force: true });
+   });
+   const clonePath = path.join(root, "clone");
+   await fs.mkdir(path.join(clonePath, "src"), { recursive: true });
+   await fs.writeFile(path.join(clonePath, "src", "router.ts"), "one\ntwo\nthree\nfour\n", "utf8");
+   await fs.writeFile(path.join(root, "outside.ts"), "secret\n", "utf8");
+   return { root, clonePath };
+}
+
+test("extractCitations parses colon and anchor forms with optional repo prefixes", () => {
+   const citations = extractCitations(
+      "See src/router.ts:10, `lib/a.js:3-7`, src/b.py#L4-L9, acme/web:pkg/c.go#L2 and other/repo:d.rs:5, gitlab.com:ops/infra/cli:cmd/run.go:8. Not a url: https://x.dev/a.ts",
+      ["acme/web", "gitlab.com:ops/infra/cli"],
+   );
+
+   assert.deepEqual(
+      citations.map(({ raw, repo, path: citedPath, startLine, endLine }) => [raw, repo, citedPath, startLine, endLine]),
+      [
+         ["src/router.ts:10", undefined, "src/router.ts", 10, 10],
+         ["lib/a.js:3-7", undefined, "lib/a.js", 3, 7],
+         ["src/b.py#L4-L9", undefined, "src/b.py", 4, 9],
+         ["acme/web:pkg/c.go#L2", "acme/web", "pkg/c.go", 2, 2],
+         ["d.rs:5", undefined, "d.rs", 5, 5],
+         ["gitlab.com:ops/infra/cli:cmd/run.go:8", "gitlab.com:ops/infra/cli", "cmd/run.go", 8, 8],
+      ],
+   );
+});
+
+test("verifyCitations checks scope, existence and line ranges", async (t) => {
+   const { clonePath } = await makeClone(t);
+   const report = await verifyCitations(
+      extractCitations("src/router.ts:2-4 src/router.ts#L3-L9 src/missing.ts:1 ../outside.ts:1"),
+      [{ repo: "acme/router", clonePath }],
+   );
+
+   assert.deepEqual(
+      report.checks.map((check) => [check.raw, check.status]),
+      [
+         ["src/router.ts:2-4", "ok"],
+         ["src/router.ts#L3-L9", "out_of_range"],
+         ["src/missing.ts:1", "missing_file"],
+         ["../outside.ts:1", "out_of_scope"],
+      ],
+   );
+   assert.equal(report.valid, 1);
+   assert.equal(report.invalid, 3);
+   assert.equal(hasTooManyInvalidCitations(report, 0.5), true);
+});
+
+test("history citations carry their commit SHA and are unverified without git", async (t) => {
+   const { clonePath } = await makeClone(t);
+   const citations = extractCitations("Introduced in 3f2a9c1d0b7e:src/router.ts:40-42, see also src/router.ts:2.");
+
+   assert.deepEqual(
+      citations.map(({ raw, commit, path: citedPath }) => [raw, commit, citedPath]),
+      [
+         ["3f2a9c1d0b7e:src/router.ts:40-42", "3f2a9c1d0b7e", "src/router.ts"],
+         ["src/router.ts:2", undefined, "src/router.ts"],
+      ],
+   );
+   const report = await verifyCitations(citations, [{ repo: "acme/router", clonePath }]);
+   assert.deepEqual(report.checks.map((check) => check.status), ["unverified", "ok"]);
+   assert.deepEqual([report.valid, report.invalid, report.unverified], [1, 0, 1]);
+
+   const notGit = await verifyCitations(citations, [{ repo: "acme/router", clonePath }], makePi());
+   assert.equal(notGit.checks[0].status, "unverified");
+});
+
+test("verifyCitations checks history citations against the file at that commit", async (t) => {
+   const { clonePath } = await makeClone(t);
+   await git(clonePath, "init", "--quiet");
+   await git(clonePath, "add", "-A");
+   await git(clonePath, "commit", "--quiet", "-m", "four lines");
+   const old = await git(clonePath, "rev-parse", "HEAD");
+   await fs.writeFile(path.join(clonePath, "src", "router.ts"), "one\n", "utf8");
+   await git(clonePath, "commit", "--quiet", "-am", "one line");
+
+   const report = await verifyCitations(
+      extractCitations(
+         `${old}:src/router.ts:3-4 ${old}:src/router.ts:5 ${old}:src/gone.ts:1 ${"0".repeat(40)}:src/router.ts:1 src/router.ts:3`,
+      ),
+      [{ repo: "acme/router", clonePath }],
+      makePi(),
+   );
+
+   assert.deepEqual(
+      report.checks.map((check) => [check.status, check.lineCount]),
+      [
+         ["ok", 4],
+         ["out_of_range", 4],
+         ["missing_file", undefined],
+         ["unknown_commit", undefined],
+         ["out_of_range", 1],
+      ],
+   );
+   assert.deepEqual([report.valid, report.invalid, report.unverified], [1, 4, 0]);
+   assert.match(buildCitationRepairPrompt(report), /0{40}:src\/router\.ts:1: commit not found in the repository/);
+});
+
+test("annotateInvalidCitations flags only the invalid citation", async (t) => {
+   const { clonePath } = await makeClone(t);
+   const text = "Defined at src/router.ts:1 and used at src/router.ts:12.";
+   const report = await verifyCitations(extractCitations(text), [{ repo: "acme/router", clonePath }]);
+
+   assert.equal(
+      annotateInvalidCitations(text, report, (check) => ` [${check.status}]`),
+      "Defined at src/router.ts:1 and used at src/router.ts:12 [out_of_range].",
+   );
+});
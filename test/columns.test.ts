@@ -0,0 +1,22 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { Columns } from "../extensions/replicant/columns";
+
+test("Columns renders runs side by side and pads shorter columns", () => {
+   const columns = new Columns([["acme/a", "read src/a.ts"], ["acme/b"]]);
+
+   assert.deepEqual(columns.render(60), [
+      `acme/a${" ".repeat(23)}  acme/b`,
+      "read src/a.ts",
+   ]);
+});
+
+test("Columns stacks runs when the terminal is too narrow and truncates long lines", () => {
+   const columns = new Columns([["acme/a", "x".repeat(50)], ["acme/b"]]);
+
+   const lines = columns.render(40);
+   assert.equal(lines.length, 4);
+   assert.deepEqual([lines[0], lines[2], lines[3]], ["acme/a", "", "acme/b"]);
+   assert.ok(lines[1].length < 50);
+   assert.deepEqual(new Columns([]).render(40), []);
+});
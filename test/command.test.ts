@@ -0,0 +1,15 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { parseReplicantCommandArgs } from "../extensions/replicant/command";
+
+test("parseReplicantCommandArgs splits a leading repo hint from the task", () => {
+   assert.deepEqual(parseReplicantCommandArgs(""), {});
+   assert.deepEqual(parseReplicantCommandArgs("  acme/router  "), { repo: "acme/router", task: undefined });
+   assert.deepEqual(parseReplicantCommandArgs("acme/router@v2.1.0 where are routes matched?"), {
+      repo: "acme/router@v2.1.0",
+      task: "where are routes matched?",
+   });
+   assert.deepEqual(parseReplicantCommandArgs("how does src/router.ts match routes?"), {
+      task: "how does src/router.ts match routes?",
+   });
+});
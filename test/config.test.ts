@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import test from "node:test";
+import { DEFAULT_CONFIG, ReplicantConfigError, loadReplicantConfig } from "../extensions/replicant/config";
+
+async function makeTmpDir(t: { after: (fn: () => Promise<void>) => void }): Promise<string> {
+   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-config-"));
+   t.after(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+   });
+   return tmpDir;
+}
+
+test("loadReplicantConfig: returns defaults when no config files exist", async (t) => {
+   const tmpDir = await makeTmpDir(t);
+   const config = await loadReplicantConfig({
+      cwd: tmpDir,
+      userPath: path.join(tmpDir, "user.json"),
+      projectPath: path.join(tmpDir, "project.json"),
+   });
+
+   assert.deepEqual(config, DEFAULT_CONFIG);
+});
+
+test("loadReplicantConfig: project config overrides user config per field", async (t) => {
+   const tmpDir = await makeTmpDir(t);
+   const userPath = path.join(tmpDir, "user.json");
+   const projectPath = path.join(tmpDir, "project.json");
+   await fs.writeFile(userPath, JSON.stringify({ budgets: { maxTurnsCap: 12, maxToolCallsCap: 80 } }), "utf8");
+   await fs.writeFile(projectPath, JSON.stringify({ budgets: { maxToolCallsCap: 100 } }), "utf8");
+
+   const config = await loadReplicantConfig({ cwd: tmpDir, userPath, projectPath });
+
+   assert.equal(config.budgets.maxTurnsCap, 12);
+   assert.equal(config.budgets.maxToolCallsCap, 100);
+   assert.equal(config.budgets.defaultMaxTurns, DEFAULT_CONFIG.budgets.defaultMaxTurns);
+});
+
+test("loadReplicantConfig: rejects unknown fields and defaults above the caps", async (t) => {
+   const tmpDir = await makeTmpDir(t);
+   const userPath = path.join(tmpDir, "user.json");
+   const projectPath = path.join(tmpDir, "project.json");
+
+   await fs.writeFile(projectPath, JSON.stringify({ budgets: { maxTurns: 4 } }), "utf8");
+   await assert.rejects(
+      () => loadReplicantConfig({ cwd: tmpDir, userPath, projectPath }),
+      (err: unknown) => {
+         assert.ok(err instanceof ReplicantConfigError);
+         assert.equal(err.filePath, projectPath);
+         return true;
+      },
+   );
+
+   await fs.writeFile(projectPath, JSON.stringify({ budgets: { maxTurnsCap: 5 } }), "utf8");
+   await assert.rejects(() => loadReplicantConfig({ cwd: tmpDir, userPath, projectPath }), /exceed the caps/);
+});
@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { execStreaming } from "../extensions/replicant/exec";
+
+test("execStreaming streams output as it arrives and marks processes killed on timeout", async () => {
+   const chunks: string[] = [];
+   const done = await execStreaming(
+      process.execPath,
+      ["-e", "process.stdout.write('out'); process.stderr.write('Receiving objects:  50% (1/2)\\r')"],
+      { onOutput: (chunk, stream) => chunks.push(`${stream}:${chunk}`) },
+   );
+   assert.deepEqual(done, { stdout: "out", stderr: "Receiving objects:  50% (1/2)\r", code: 0, killed: false });
+   assert.deepEqual(chunks.sort(), ["stderr:Receiving objects:  50% (1/2)\r", "stdout:out"]);
+
+   const hung = await execStreaming(process.execPath, ["-e", "setTimeout(() => undefined, 10_000)"], { timeout: 100 });
+   assert.equal(hung.killed, true);
+   assert.notEqual(hung.code, 0);
+
+   const missing = await execStreaming("replicant-missing-binary", [], {});
+   assert.deepEqual([missing.code, missing.killed], [1, false]);
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import test from "node:test";
+import { formatFreshness, readCloneFreshness } from "../extensions/replicant/freshness";
+import { git, makePi } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function makeUpstreamAndClone(t: { after: (fn: () => Promise<void>) => void }) {
+   const root = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-freshness-"));
+   t.after(async () => {
+      await fs.rm(root, { recursive: true, force: true });
+   });
+   const upstream = path.join(root, "upstream");
+   const clonePath = path.join(root, "clone");
+   await fs.mkdir(upstream, { recursive: true });
+   await git(upstream, "init", "--quiet", "-b", "main");
+   await fs.writeFile(path.join(upstream, "a.txt"), "one\n", "utf8");
+   await git(upstream, "add", "-A");
+   await git(upstream, "commit", "--quiet", "-m", "one");
+   await git(root, "clone", "--quiet", upstream, clonePath);
+   return { upstream, clonePath };
+}
+
+test("readCloneFreshness reports commits behind the tracking branch after a fetch", async (t) => {
+   const { upstream, clonePath } = await makeUpstreamAndClone(t);
+   await fs.writeFile(path.join(upstream, "a.txt"), "two\n", "utf8");
+   await git(upstream, "commit", "--quiet", "-am", "two");
+   await git(clonePath, "fetch", "--quiet");
+
+   const freshness = await readCloneFreshness(makePi(), clonePath, { maxFetchAgeHours: 24, maxBehind: 0 });
+
+   assert.ok(freshness);
+   assert.equal(freshness.upstream, "origin/main");
+   assert.equal(freshness.ahead, 0);
+   assert.equal(freshness.behind, 1);
+   assert.equal(freshness.stale, true);
+   assert.deepEqual(freshness.reasons, ["1 commits behind origin/main (limit 0)"]);
+   assert.match(formatFreshness(freshness), /0 ahead \/ 1 behind origin\/main, stale: 1 commits behind/);
+});
+
+test("readCloneFreshness flags old fetches and old HEAD commits against the thresholds", async (t) => {
+   const { clonePath } = await makeUpstreamAndClone(t);
+   const now = Date.now() + 10 * DAY_MS;
+
+   const freshness = await readCloneFreshness(makePi(), clonePath, { maxFetchAgeHours: 48, maxBehind: 0, maxHeadAgeDays: 5 }, undefined, now);
+
+   assert.equal(freshness?.behind, 0);
+   assert.equal(freshness?.stale, true);
+   assert.equal(freshness?.reasons.length, 2);
+   assert.match(freshness!.reasons[0], /^last fetch 10d ago \(limit 48h\)$/);
+   assert.match(freshness!.reasons[1], /^HEAD commit is 10d old \(limit 5d\)$/);
+
+   const relaxed = await readCloneFreshness(makePi(), clonePath, { maxFetchAgeHours: 24 * 30, maxBehind: 0 }, undefined, now);
+   assert.equal(relaxed?.stale, false);
+});
+
+test("readCloneFreshness returns undefined outside a git clone", async (t) => {
+   const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-freshness-"));
+   t.after(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+   });
+   assert.equal(await readCloneFreshness(makePi(), dir, { maxFetchAgeHours: 24, maxBehind: 0 }), undefined);
+});
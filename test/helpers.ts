@@ -0,0 +1,33 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+export type ExecResult = { stdout: string; stderr: string; code: number };
+export type ExecImpl = (args: string[], command: string) => Promise<ExecResult>;
+
+export async function execCommand(command: string, args: string[]): Promise<ExecResult> {
+   try {
+      const { stdout, stderr } = await execFileAsync(command, args);
+      return { stdout, stderr, code: 0 };
+   } catch (error) {
+      const failed = error as { stdout?: string; stderr?: string; code?: number };
+      return { stdout: failed.stdout ?? "", stderr: failed.stderr ?? "", code: typeof failed.code === "number" ? failed.code : 1 };
+   }
+}
+
+export function makePi(execImpl: ExecImpl = (args, command) => execCommand(command, args), extra: Record<string, unknown> = {}) {
+   return {
+      ...extra,
+      exec: async (command: string, args: string[]) => execImpl(args, command),
+   } as any;
+}
+
+export function ok(stdout: string): ExecResult {
+   return { stdout, stderr: "", code: 0 };
+}
+
+export async function git(cwd: string, ...args: string[]): Promise<string> {
+   const { stdout } = await execFileAsync("git", ["-C", cwd, "-c", "user.name=test", "-c", "user.email=test@example.com", ...args]);
+   return stdout.trim();
+}
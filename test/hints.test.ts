@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { extractSearchTerms, extractTaskHints, normalizeRepoHint, parseRepoLocator, qualifyRepo, scorePackageMatches } from "../extensions/replicant/hints";
+
+const summarize = (task: string) => extractTaskHints(task).map((hint) => [hint.kind, hint.value, hint.source]);
+
+test("parseRepoLocator understands https, ssh and host-qualified forms with nested groups", () => {
+   assert.deepEqual(parseRepoLocator("https://gitlab.com/gitlab-org/ci-cd/runner.git@v16.0.0"), {
+      host: "gitlab.com",
+      path: "gitlab-org/ci-cd/runner",
+      ref: "v16.0.0",
+   });
+   assert.deepEqual(parseRepoLocator("https://gitlab.com/group/sub/repo/-/blob/main/README.md"), { host: "gitlab.com", path: "group/sub/repo", ref: undefined });
+   assert.deepEqual(parseRepoLocator("git@codeberg.org:forgejo/forgejo.git"), { host: "codeberg.org", path: "forgejo/forgejo", ref: undefined });
+   assert.deepEqual(parseRepoLocator("ssh://git@git.example.com:2222/team/tools/cli.git"), { host: "git.example.com", path: "team/tools/cli", ref: undefined });
+   assert.deepEqual(parseRepoLocator("gitea.internal.dev:ops/deploy@main"), { host: "gitea.internal.dev", path: "ops/deploy", ref: "main" });
+   assert.deepEqual(parseRepoLocator("https://github.com/owner/repo/blob/main/src/a.ts"), { host: "github.com", path: "owner/repo", ref: undefined });
+   assert.equal(parseRepoLocator("node.js/lib/fs.js"), undefined);
+   assert.equal(parseRepoLocator("https://gitlab.com/solo"), undefined);
+
+   assert.equal(normalizeRepoHint("https://github.com/owner/repo.git"), "owner/repo");
+   assert.equal(normalizeRepoHint("git@gitlab.com:group/sub/repo.git@v1"), "gitlab.com:group/sub/repo@v1");
+   assert.equal(qualifyRepo("owner/repo"), "github.com:owner/repo");
+   assert.equal(qualifyRepo("codeberg.org:forgejo/forgejo"), "codeberg.org:forgejo/forgejo");
+});
+
+test("extractTaskHints keeps repo URLs and owner/repo tokens as repo hints", () => {
+   assert.deepEqual(summarize("see https://github.com/colinhacks/zod.git@v3.22.4 please"), [["repo", "colinhacks/zod@v3.22.4", "url"]]);
+   assert.deepEqual(summarize("how does (https://gitlab.com/gitlab-org/cli) parse flags?"), [["repo", "gitlab.com:gitlab-org/cli", "url"]]);
+   assert.deepEqual(summarize("How does tanstack/pacer@v0.8.0 debounce?"), [["repo", "tanstack/pacer@v0.8.0", "owner-repo"]]);
+   assert.deepEqual(summarize("what does src/router.ts export"), []);
+});
+
+test("extractTaskHints recognizes ecosystem ids, scoped npm names and bare package names", () => {
+   assert.deepEqual(summarize("compare crate:serde and pypi:Requests@2.31"), [
+      ["package", "crate:serde", "ecosystem"],
+      ["package", "pypi:requests", "ecosystem"],
+   ]);
+   assert.deepEqual(summarize("in @tanstack/query, how are queries deduped?"), [["package", "@tanstack/query", "npm-scoped"]]);
+   assert.deepEqual(summarize("how does zod handle unions in `valibot`?"), [
+      ["package", "valibot", "npm"],
+      ["package", "zod", "cue"],
+   ]);
+   assert.deepEqual(summarize("how does the router work in this app"), []);
+   assert.deepEqual(summarize("trace subagent architecture"), []);
+});
+
+test("scorePackageMatches prefers keyword matches and halves ties", () => {
+   const [zod] = extractTaskHints("how does zod handle unions");
+   const scored = scorePackageMatches(zod, [
+      { repo: "someone/zod-utils", score: 0.9, keywords: ["zod", "utils"] },
+      { repo: "colinhacks/zod", score: 0.8, keywords: ["zod", "schema"] },
+      { repo: "other/thing", score: 0.99 },
+   ]);
+   assert.deepEqual(
+      scored.map((match) => [match.repo, match.confidence]),
+      [
+         ["someone/zod-utils", 0.35],
+         ["colinhacks/zod", 0.35],
+      ],
+   );
+
+   const [query] = extractTaskHints("in @tanstack/query, how are queries deduped?");
+   const [top] = scorePackageMatches(query, [
+      { repo: "tanstack/query", score: 0.5 },
+      { repo: "someone/query", score: 0.9 },
+   ]);
+   assert.deepEqual([top.repo, top.confidence], ["tanstack/query", 0.9]);
+});
+
+test("extractSearchTerms keeps phrases, package names and identifiers and drops question scaffolding", () => {
+   assert.deepEqual(extractSearchTerms('How does the "retry budget" work in createServer for npm:lodash?'), [
+      "retry budget",
+      "lodash",
+      "createServer",
+   ]);
+   assert.deepEqual(extractSearchTerms("Explain how the repository handles websocket reconnect backoff"), [
+      "websocket",
+      "reconnect",
+      "backoff",
+   ]);
+   assert.deepEqual(extractSearchTerms("where are the alpha beta gamma delta epsilon zeta modules?"), [
+      "alpha",
+      "beta",
+      "gamma",
+      "delta",
+      "epsilon",
+   ]);
+   assert.deepEqual(extractSearchTerms("where is retry logic in middleware, done with streams"), ["middleware", "streams", "retry", "logic"]);
+   assert.deepEqual(extractSearchTerms("what is this?"), []);
+});
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import test from "node:test";
+import { buildGitBlameArgs, buildGitLogArgs, buildGitShowArgs, createHistoryExtension } from "../extensions/replicant/history";
+import { DEFAULT_SENSITIVE_DENY_GLOBS } from "../extensions/replicant/sensitive";
+import { git, makePi } from "./helpers";
+
+function makeToolPi(tools: Map<string, any>) {
+   return makePi(undefined, {
+      registerTool: (tool: any) => {
+         tools.set(tool.name, tool);
+      },
+   });
+}
+
+async function makeRepo(t: { after: (fn: () => Promise<void>) => void }) {
+   const repoPath = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-history-"));
+   t.after(async () => {
+      await fs.rm(repoPath, { recursive: true, force: true });
+   });
+   await git(repoPath, "init", "--quiet", "-b", "main");
+   await fs.mkdir(path.join(repoPath, "src"));
+   await fs.writeFile(path.join(repoPath, "src", "retry.ts"), "export const attempts = 3;\n", "utf8");
+   await git(repoPath, "add", "-A");
+   await git(repoPath, "commit", "--quiet", "-m", "Add retry settings");
+   await fs.writeFile(path.join(repoPath, "src", "retry.ts"), "export const attempts = 5;\nexport const backoffMs = 200;\n", "utf8");
+   await fs.writeFile(path.join(repoPath, "README.md"), "# demo\n", "utf8");
+   await git(repoPath, "add", "-A");
+   await git(repoPath, "commit", "--quiet", "-m", "Raise retry attempts");
+   return { repoPath, head: await git(repoPath, "rev-parse", "HEAD") };
+}
+
+test("history args keep paths after -- and reject SHAs, escapes and control characters", () => {
+   const options = { cwd: "/clone", rev: "HEAD" };
+   assert.deepEqual(buildGitLogArgs({ path: "/clone/src", maxCount: 500, message: "--exec=x" }, options).slice(3), [
+      "--max-count=50",
+      "--date=short",
+      "--format=%H %ad %an%n    %s",
+      "--regexp-ignore-case",
+      "--fixed-strings",
+      "--grep=--exec=x",
+      "HEAD",
+      "--",
+      ":(literal)src",
+   ]);
+   assert.deepEqual(buildGitBlameArgs({ path: "src/a.ts", startLine: 10 }, options), [
+      "blame",
+      "--date=short",
+      "--abbrev=12",
+      "-L10,409",
+      "HEAD",
+      "--",
+      "src/a.ts",
+   ]);
+   assert.throws(() => buildGitShowArgs({ commit: "--output=/tmp/x" }, options), /Invalid commit SHA/);
+   assert.throws(() => buildGitLogArgs({ path: "../outside" }, options), /outside the explored repository/);
+   assert.throws(() => buildGitLogArgs({ pickaxe: "a\nb" }, options), /control characters/);
+});
+
+test("history tools list, show and blame commits of the clone with full SHAs", async (t) => {
+   const { repoPath, head } = await makeRepo(t);
+   const tools = new Map<string, any>();
+   createHistoryExtension({ cwd: repoPath, repoPath, rev: "HEAD", tools: ["read", "git_log", "git_show", "git_blame"] })(makeToolPi(tools));
+   assert.deepEqual([...tools.keys()], ["git_log", "git_show", "git_blame"]);
+
+   const log = await tools.get("git_log").execute("1", { path: "src/retry.ts", pickaxe: "backoffMs" });
+   assert.match(log.content[0].text, new RegExp(`^${head} \\d{4}-\\d{2}-\\d{2} test\\n    Raise retry attempts$`));
+
+   const show = await tools.get("git_show").execute("2", { commit: head.slice(0, 12), path: "src" });
+   assert.match(show.content[0].text, /\+export const backoffMs = 200;/);
+   assert.doesNotMatch(show.content[0].text, /README/);
+
+   const blame = await tools.get("git_blame").execute("3", { path: "src/retry.ts", startLine: 2, endLine: 2 });
+   assert.match(blame.content[0].text, new RegExp(`^${head.slice(0, 12)}.* 2\\) export const backoffMs = 200;$`));
+
+   await assert.rejects(tools.get("git_show").execute("4", { commit: "0000000" }), /git_show failed/);
+});
+
+test("history tools only register the tools the profile opted into", () => {
+   const tools = new Map<string, any>();
+   createHistoryExtension({ cwd: "/clone", repoPath: "/clone", rev: "HEAD", tools: ["read", "git_log"] })(makeToolPi(tools));
+   assert.deepEqual([...tools.keys()], ["git_log"]);
+});
+
+test("history tools leave deny-listed files out of commit diffs and pickaxe searches", async (t) => {
+   const { repoPath } = await makeRepo(t);
+   await fs.writeFile(path.join(repoPath, ".env"), "API_TOKEN=hunter2\n", "utf8");
+   await fs.mkdir(path.join(repoPath, "config"));
+   await fs.writeFile(path.join(repoPath, "config", "secrets.yaml"), "token: hunter2\n", "utf8");
+   await fs.writeFile(path.join(repoPath, "src", "env.ts"), "export const name = 'hunter2';\n", "utf8");
+   await git(repoPath, "add", "-A");
+   await git(repoPath, "commit", "--quiet", "-m", "Add env");
+   const head = await git(repoPath, "rev-parse", "HEAD");
+   const tools = new Map<string, any>();
+   createHistoryExtension({
+      cwd: repoPath,
+      repoPath,
+      rev: "HEAD",
+      tools: ["git_log", "git_show"],
+      excludeGlobs: DEFAULT_SENSITIVE_DENY_GLOBS,
+   })(makeToolPi(tools));
+
+   const show = await tools.get("git_show").execute("1", { commit: head });
+   assert.match(show.content[0].text, /src\/env\.ts/);
+   assert.doesNotMatch(show.content[0].text, /API_TOKEN|\.env\b|secrets\.yaml/);
+
+   const log = await tools.get("git_log").execute("2", { pickaxe: "API_TOKEN" });
+   assert.equal(log.content[0].text, "(no matching history)");
+});
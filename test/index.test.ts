@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import test from "node:test";
+import { DEFAULT_AGENT } from "../extensions/replicant/agents";
+import { DEFAULT_CONFIG } from "../extensions/replicant/config";
+import { runComparison } from "../extensions/replicant/index";
+import type { RepoResolver } from "../extensions/replicant/offworld";
+import { createSubagentScheduler } from "../extensions/replicant/scheduler";
+
+type ComparisonRun = Parameters<typeof runComparison>[0]["runs"][number];
+
+async function makeClones(t: { after: (fn: () => Promise<void>) => void }, repos: string[]) {
+   const root = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-index-"));
+   t.after(async () => {
+      await fs.rm(root, { recursive: true, force: true });
+   });
+   const clones = new Map<string, string>();
+   for (const repo of repos) {
+      const clonePath = path.join(root, repo.replace("/", "__"));
+      await fs.mkdir(clonePath, { recursive: true });
+      clones.set(repo, clonePath);
+   }
+   return clones;
+}
+
+function makeResolver(clones: Map<string, string>): RepoResolver {
+   return {
+      name: "fake",
+      resolve: async (repo) => {
+         const clonePath = clones.get(repo);
+         return clonePath ? { repo, qualifiedName: `github.com:${repo}`, scope: "global", clonePath } : undefined;
+      },
+      search: async () => [],
+      ensureClone: async (location) => location,
+   };
+}
+
+function makeOptions(clones: Map<string, string>, repos: string[], prompts: string[]) {
+   const statuses: string[] = [];
+   return {
+      statuses,
+      options: {
+         pi: {} as any,
+         ctx: { hasUI: false, cwd: process.cwd() } as any,
+         task: "How do they retry requests?",
+         agent: DEFAULT_AGENT,
+         maxTurns: 4,
+         maxToolCalls: 10,
+         format: "markdown" as const,
+         config: { ...DEFAULT_CONFIG, freshness: { ...DEFAULT_CONFIG.freshness, enabled: false } },
+         displayTask: "How do they retry requests?",
+         runs: repos.map((repo): ComparisonRun => ({ status: "running", repo })),
+         scheduler: createSubagentScheduler(),
+         exportHolds: [],
+         emit: (statusText: string) => statuses.push(statusText),
+         onSynthesisUpdate: () => undefined,
+         resolvers: [makeResolver(clones)],
+         runSubprocess: async (input: { cwd: string; taskPrompt: string; tools: string[] }) => {
+            prompts.push(input.taskPrompt);
+            const repo = [...clones.entries()].find(([, clonePath]) => clonePath === input.cwd)?.[0];
+            return {
+               finalText: input.tools.length === 0 ? "synthesized comparison" : `findings for ${repo}`,
+               details: { phase: "done" },
+            } as any;
+         },
+      },
+   };
+}
+
+test("runComparison explores every repo and synthesizes their findings", async (t) => {
+   const clones = await makeClones(t, ["acme/a", "acme/b"]);
+   const prompts: string[] = [];
+   const { options } = makeOptions(clones, ["acme/a", "acme/b"], prompts);
+
+   const result = await runComparison(options);
+
+   assert.equal(result.finalText, "synthesized comparison");
+   assert.deepEqual(
+      options.runs.map((run) => [run.repo, run.status, run.clonePath]),
+      [
+         ["acme/a", "done", clones.get("acme/a")],
+         ["acme/b", "done", clones.get("acme/b")],
+      ],
+   );
+   const synthesis = prompts.at(-1) ?? "";
+   assert.match(synthesis, /## acme\/a\nfindings for acme\/a/);
+   assert.match(synthesis, /## acme\/b\nfindings for acme\/b/);
+});
+
+test("runComparison marks a repo that fails to resolve as errored and compares the others", async (t) => {
+   const clones = await makeClones(t, ["acme/a", "acme/b"]);
+   const prompts: string[] = [];
+   const { options, statuses } = makeOptions(clones, ["acme/a", "acme/missing", "acme/b"], prompts);
+
+   const result = await runComparison(options);
+
+   assert.equal(result.finalText, "synthesized comparison");
+   assert.deepEqual(
+      options.runs.map((run) => [run.repo, run.status]),
+      [
+         ["acme/a", "done"],
+         ["acme/missing", "error"],
+         ["acme/b", "done"],
+      ],
+   );
+   assert.match(options.runs[1].errorMessage ?? "", /Repository not found by fake: acme\/missing/);
+   assert.ok(statuses.includes("replicant: acme/missing could not be resolved"));
+   const synthesis = prompts.at(-1) ?? "";
+   assert.match(synthesis, /## acme\/b\nfindings for acme\/b/);
+   assert.match(synthesis, /## acme\/missing\n\(exploration failed: Repository not found/);
+});
+
+test("runComparison fails when no repo could be explored", async (t) => {
+   const clones = await makeClones(t, []);
+   const { options } = makeOptions(clones, ["acme/x", "acme/y"], []);
+
+   await assert.rejects(runComparison(options), /All comparison runs failed: acme\/x: Repository not found/);
+});
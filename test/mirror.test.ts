@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import test from "node:test";
+import { createMirrorResolver, mirrorPathFor } from "../extensions/replicant/mirror";
+import { createOffworldResolver, resolveRepo } from "../extensions/replicant/offworld";
+import { makePi, ok } from "./helpers";
+
+function makeCtx(hasUI = false) {
+   return {
+      hasUI,
+      cwd: process.cwd(),
+      ui: {
+         confirm: async () => true,
+         select: async () => undefined,
+      },
+   } as any;
+}
+
+function makeOwPi(calls: string[], mapShow: (repo: string) => object) {
+   return makePi(async (args) => {
+      calls.push(args.join(" "));
+      if (args[0] === "--version") return ok("offworld v0.3.8");
+      if (args[0] === "map" && args[1] === "show") return ok(JSON.stringify(mapShow(args[2])));
+      if (args[0] === "map" && args[1] === "search") return ok("[]");
+      return { stdout: "", stderr: `unexpected command: ${args.join(" ")}`, code: 1 };
+   });
+}
+
+async function makeMirror(t: { after: (fn: () => Promise<void>) => void }, repos: string[], layout = "{owner}/{repo}") {
+   const root = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-mirror-"));
+   t.after(async () => {
+      await fs.rm(root, { recursive: true, force: true });
+   });
+   for (const repo of repos) {
+      const dir = mirrorPathFor(root, layout, repo)!;
+      await fs.mkdir(path.join(dir, ".git"), { recursive: true });
+      await fs.writeFile(path.join(dir, "README.md"), `# ${repo}\n`);
+   }
+   return root;
+}
+
+test("mirrorPathFor applies the layout and rejects paths escaping the root", () => {
+   assert.equal(mirrorPathFor("/mirrors", "{owner}/{repo}", "acme/api"), "/mirrors/acme/api");
+   assert.equal(mirrorPathFor("/mirrors", "{owner}/{repo}.git", "acme/api"), "/mirrors/acme/api.git");
+   assert.equal(mirrorPathFor("/mirrors", "{owner}/{repo}", "../etc/passwd"), undefined);
+   assert.equal(mirrorPathFor("/mirrors", "{owner}/{repo}", "api"), undefined);
+});
+
+test("mirror resolver resolves and searches repos laid out under its roots", async (t) => {
+   const root = await makeMirror(t, ["acme/payments-api", "acme/web", "tools/lint-rules"], "{owner}--{repo}");
+   const resolver = createMirrorResolver({ roots: [root], layout: "{owner}--{repo}", cwd: "/" });
+   const context = { pi: {} as any, ctx: makeCtx() };
+
+   const location = await resolver.resolve("acme/web", context);
+   assert.equal(location?.clonePath, path.join(root, "acme--web"));
+   assert.equal(location?.referencePath, path.join(root, "acme--web", "README.md"));
+   assert.equal(location?.qualifiedName, "mirror:acme/web");
+   assert.equal(await resolver.resolve("acme/missing", context), undefined);
+
+   const matches = await resolver.search("how does payments-api retry webhooks", context);
+   assert.deepEqual(matches, [{ repo: "acme/payments-api", score: 10, resolver: "mirror" }]);
+});
+
+test("resolveRepo tries resolvers in order and records which one answered", async (t) => {
+   const root = await makeMirror(t, ["acme/internal"]);
+   const calls: string[] = [];
+   const pi = makeOwPi(calls, () => ({ found: false }));
+
+   const resolved = await resolveRepo({
+      pi,
+      ctx: makeCtx(),
+      task: "explain the auth middleware",
+      repoHint: "acme/internal",
+      resolvers: [createOffworldResolver(), createMirrorResolver({ roots: [root], cwd: "/" })],
+   });
+
+   assert.deepEqual(calls, ["--version", "map show acme/internal --json"]);
+   assert.equal(resolved.resolver, "mirror");
+   assert.equal(resolved.resolvedFrom, "existing");
+   assert.equal(resolved.clonePath, path.join(root, "acme", "internal"));
+});
+
+test("resolveRepo prefers the resolver whose search result was selected", async (t) => {
+   const root = await makeMirror(t, ["acme/ledger"]);
+   const calls: string[] = [];
+   const pi = makeOwPi(calls, () => ({ found: false }));
+
+   const resolved = await resolveRepo({
+      pi,
+      ctx: makeCtx(),
+      task: "where does ledger compute balances?",
+      resolvers: [createOffworldResolver(), createMirrorResolver({ roots: [root], cwd: "/" })],
+   });
+
+   assert.equal(resolved.repo, "acme/ledger");
+   assert.equal(resolved.resolver, "mirror");
+   assert.deepEqual(resolved.searchCandidates, [{ repo: "acme/ledger", score: 10, hits: [{ term: "ledger", score: 10 }] }]);
+   assert.ok(!calls.some((call) => call.startsWith("map show")));
+});
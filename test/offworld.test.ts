@@ -3,10 +3,18 @@ import * as fs from "node:fs/promises";
 import * as os from "node:os";
 import * as path from "node:path";
 import test from "node:test";
-import { ReplicantOffworldError, resolveRepoWithOffworld } from "../extensions/replicant/offworld";
-
-type ExecResult = { stdout: string; stderr: string; code: number };
-type ExecImpl = (args: string[]) => Promise<ExecResult>;
+import { DEFAULT_CONFIG } from "../extensions/replicant/config";
+import {
+   ReplicantOffworldError,
+   createOffworldResolver,
+   parsePullProgress,
+   recommendCandidate,
+   resolveLocalRepo,
+   resolveRepo,
+   resolveRepoWithOffworld,
+   taskSearchTerms,
+} from "../extensions/replicant/offworld";
+import { type ExecResult, makePi, ok } from "./helpers";
 
 function makeCtx(
    hasUI = false,
@@ -33,16 +41,6 @@ function makeCtx(
    } as any;
 }
 
-function makePi(execImpl: ExecImpl) {
-   return {
-      exec: async (_command: string, args: string[]) => execImpl(args),
-   } as any;
-}
-
-function ok(stdout: string): ExecResult {
-   return { stdout, stderr: "", code: 0 };
-}
-
 async function markClonePresent(clonePath: string): Promise<void> {
    await fs.mkdir(path.join(clonePath, ".git"), { recursive: true });
 }
@@ -228,6 +226,194 @@ test("resolveRepoWithOffworld: infers repo from task owner/repo and skips map se
 });
 
 
+test("resolveRepoWithOffworld: splits owner/repo@ref hints from the task", async (t) => {
+   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-offworld-"));
+   t.after(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+   });
+
+   const repo = "tanstack/pacer";
+   const clonePath = path.join(tmpDir, "clone");
+   await markClonePresent(clonePath);
+
+   const calls: string[] = [];
+   const pi = makePi(async (args) => {
+      const key = args.join(" ");
+      calls.push(key);
+
+      if (key === "--version") return ok("offworld v0.3.8");
+      if (key === `map show ${repo} --json`) {
+         return ok(JSON.stringify({ found: true, qualifiedName: `github.com:${repo}`, scope: "global", localPath: clonePath }));
+      }
+
+      return { code: 1, stdout: "", stderr: `unexpected command: ${key}` };
+   });
+
+   const resolved = await resolveRepoWithOffworld({
+      pi,
+      ctx: makeCtx(false),
+      task: "How does tanstack/pacer@v0.8.0 debounce async functions?",
+   });
+
+   assert.equal(resolved.repo, repo);
+   assert.equal(resolved.ref, "v0.8.0");
+   assert.deepEqual(calls, ["--version", `map show ${repo} --json`]);
+});
+
+
+test("resolveRepoWithOffworld: maps package hints to repos through map search keywords", async (t) => {
+   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-offworld-"));
+   t.after(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+   });
+
+   const repo = "tanstack/query";
+   const clonePath = path.join(tmpDir, "clone");
+   await markClonePresent(clonePath);
+
+   const calls: string[] = [];
+   const pi = makePi(async (args) => {
+      const key = args.join(" ");
+      calls.push(key);
+
+      if (key === "--version") return ok("offworld v0.3.8");
+      if (key === "map search @tanstack/query --json") {
+         return ok(
+            JSON.stringify([
+               { qualifiedName: "github.com:someone/query", fullName: "someone/query", localPath: "", primary: "", keywords: [], score: 0.9 },
+               { qualifiedName: `github.com:${repo}`, fullName: repo, localPath: clonePath, primary: "", keywords: ["@tanstack/query"], score: 0.4 },
+            ]),
+         );
+      }
+      if (key === `map show ${repo} --json`) {
+         return ok(JSON.stringify({ found: true, qualifiedName: `github.com:${repo}`, scope: "global", localPath: clonePath }));
+      }
+
+      return { code: 1, stdout: "", stderr: `unexpected command: ${key}` };
+   });
+
+   const resolved = await resolveRepoWithOffworld({
+      pi,
+      ctx: makeCtx(false),
+      task: "In @tanstack/query, how are concurrent fetches deduped?",
+   });
+
+   assert.equal(resolved.repo, repo);
+   assert.deepEqual(resolved.hint, { value: "@tanstack/query", source: "npm-scoped", confidence: 1, repo });
+   assert.deepEqual(calls, ["--version", "map search @tanstack/query --json", `map show ${repo} --json`]);
+});
+
+
+test("resolveRepoWithOffworld: ranks bare package names after cue words as search candidates instead of auto-selecting them", async (t) => {
+   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-offworld-"));
+   t.after(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+   });
+
+   const clonePath = path.join(tmpDir, "clone");
+   await markClonePresent(clonePath);
+   const entry = (repo: string, score: number, keywords: string[] = []) => ({
+      qualifiedName: `github.com:${repo}`,
+      fullName: repo,
+      localPath: clonePath,
+      primary: "",
+      keywords,
+      score,
+   });
+   const searches: Record<string, unknown[]> = {
+      zod: [entry("someone/zod-utils", 0.6, ["zod"]), entry("colinhacks/zod", 0.5, ["schema"])],
+      unions: [entry("someone/zod-utils", 0.2)],
+      sessions: [entry("acme/sessions", 0.3, ["sessions"])],
+      cookies: [],
+      express: [entry("expressjs/express", 0.9, ["express"])],
+   };
+   const calls: string[] = [];
+   const pi = makePi(async (args) => {
+      const key = args.join(" ");
+      calls.push(key);
+      if (key === "--version") return ok("offworld v0.3.8");
+      const search = key.match(/^map search (\S+) --json$/);
+      if (search && searches[search[1]]) return ok(JSON.stringify(searches[search[1]]));
+      const show = key.match(/^map show (\S+) --json$/);
+      if (show) return ok(JSON.stringify({ found: true, qualifiedName: `github.com:${show[1]}`, scope: "global", localPath: clonePath }));
+      return { code: 1, stdout: "", stderr: `unexpected command: ${key}` };
+   });
+
+   const zod = await resolveRepoWithOffworld({
+      pi,
+      ctx: makeCtx(false),
+      task: "how does zod handle unions",
+      selection: DEFAULT_CONFIG.selection,
+   });
+   assert.equal(zod.repo, "colinhacks/zod");
+   assert.deepEqual(zod.hint, { value: "zod, unions", source: "search", repo: "colinhacks/zod" });
+   assert.deepEqual(zod.selection, { repo: "colinhacks/zod", method: "auto", rationale: "the task names colinhacks/zod" });
+
+   calls.length = 0;
+   let offered: string[] = [];
+   const english = await resolveRepoWithOffworld({
+      pi,
+      ctx: makeCtx(true, async (_title, options) => {
+         offered = options;
+         return options[1];
+      }),
+      task: "how do sessions work with cookies using express",
+      selection: DEFAULT_CONFIG.selection,
+   });
+   assert.deepEqual(calls.slice(1, 4), ["map search sessions --json", "map search cookies --json", "map search express --json"]);
+   assert.deepEqual(offered, ["expressjs/express (score 0.9) [recommended]", "acme/sessions (score 0.3)"]);
+   assert.equal(english.repo, "acme/sessions");
+   assert.equal(english.hint?.source, "search");
+   assert.equal(english.selection?.method, "user");
+});
+
+test("resolveRepoWithOffworld: carries non-GitHub hosts through map show, pull and qualifiedName", async (t) => {
+   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-offworld-"));
+   t.after(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+   });
+
+   const repo = "gitlab.com:platform/tools/deployer";
+   const clonePath = path.join(tmpDir, "clone");
+   let pulled = false;
+
+   const calls: string[] = [];
+   const pi = makePi(async (args) => {
+      const key = args.join(" ");
+      calls.push(key);
+
+      if (key === "--version") return ok("offworld v0.3.8");
+      if (key === `map show ${repo} --json`) {
+         return ok(JSON.stringify({ found: true, qualifiedName: repo, scope: "global", localPath: pulled ? clonePath : undefined }));
+      }
+      if (key === "pull https://gitlab.com/platform/tools/deployer --clone-only") {
+         pulled = true;
+         await markClonePresent(clonePath);
+         return ok("");
+      }
+
+      return { code: 1, stdout: "", stderr: `unexpected command: ${key}` };
+   });
+
+   const resolved = await resolveRepoWithOffworld({
+      pi,
+      ctx: makeCtx(false),
+      task: "How does git@gitlab.com:platform/tools/deployer.git roll back releases?",
+   });
+
+   assert.equal(resolved.repo, repo);
+   assert.equal(resolved.qualifiedName, repo);
+   assert.equal(resolved.host, "gitlab.com");
+   assert.equal(resolved.resolvedFrom, "pulled");
+   assert.deepEqual(calls, [
+      "--version",
+      `map show ${repo} --json`,
+      "pull https://gitlab.com/platform/tools/deployer --clone-only",
+      `map show ${repo} --json`,
+   ]);
+});
+
+
 test("resolveRepoWithOffworld: non-interactive repo search with multiple matches throws repo_ambiguous", async (t) => {
    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-offworld-"));
    t.after(async () => {
@@ -292,7 +478,7 @@ test("resolveRepoWithOffworld: non-interactive repo search with multiple matches
          return true;
       },
    );
-   assert.deepEqual(calls, ["--version", "map search trace subagent architecture --json"]);
+   assert.deepEqual(calls, ["--version", "map search subagent --json", "map search architecture --json"]);
 });
 
 
@@ -358,5 +544,384 @@ test("resolveRepoWithOffworld: interactive selection uses exact label match", as
    });
 
    assert.equal(resolved.repo, selectedRepo);
-   assert.deepEqual(calls, ["--version", "map search trace repository tooling --json", `map show ${selectedRepo} --json`]);
+   assert.deepEqual(calls, ["--version", "map search tooling --json", `map show ${selectedRepo} --json`]);
+});
+
+test("resolveRepoWithOffworld: searches each task keyword and merges scores per repo", async (t) => {
+   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-offworld-"));
+   t.after(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+   });
+   const clonePath = path.join(tmpDir, "clone");
+   const referencePath = path.join(tmpDir, "reference.md");
+   await fs.mkdir(clonePath, { recursive: true });
+   await markClonePresent(clonePath);
+   await fs.writeFile(referencePath, "# reference\n", "utf8");
+
+   const results: Record<string, Array<{ fullName: string; score: number }>> = {
+      websocket: [
+         { fullName: "acme/socket", score: 0.5 },
+         { fullName: "acme/client", score: 0.6 },
+      ],
+      reconnect: [{ fullName: "acme/socket", score: 0.4 }],
+      backoff: [],
+   };
+   const calls: string[] = [];
+   const pi = makePi(async (args) => {
+      const key = args.join(" ");
+      calls.push(key);
+      if (key === "--version") return ok("offworld v0.3.8");
+      const search = key.match(/^map search (\S+) --json$/);
+      if (search) {
+         return ok(
+            JSON.stringify(
+               results[search[1]].map((entry) => ({
+                  qualifiedName: `github.com:${entry.fullName}`,
+                  fullName: entry.fullName,
+                  localPath: clonePath,
+                  primary: `${entry.fullName.replace("/", "-")}.md`,
+                  keywords: [],
+                  score: entry.score,
+               })),
+            ),
+         );
+      }
+      if (key === "map show acme/socket --json") {
+         return ok(
+            JSON.stringify({
+               found: true,
+               qualifiedName: "github.com:acme/socket",
+               scope: "global",
+               localPath: clonePath,
+               referencePath,
+            }),
+         );
+      }
+      return { code: 1, stdout: "", stderr: `unexpected command: ${key}` };
+   });
+
+   let offered: string[] = [];
+   const resolved = await resolveRepoWithOffworld({
+      pi,
+      ctx: makeCtx(true, async (_title, options) => {
+         offered = options;
+         return options[0];
+      }),
+      task: "Explain how the repository handles websocket reconnect backoff",
+   });
+
+   assert.deepEqual(calls.slice(1, 4), ["map search websocket --json", "map search reconnect --json", "map search backoff --json"]);
+   assert.deepEqual(offered, ["acme/socket (score 0.9; websocket, reconnect)", "acme/client (score 0.6)"]);
+   assert.equal(resolved.repo, "acme/socket");
+   assert.deepEqual(resolved.searchCandidates, [
+      {
+         repo: "acme/socket",
+         score: 0.9,
+         hits: [
+            { term: "websocket", score: 0.5 },
+            { term: "reconnect", score: 0.4 },
+         ],
+      },
+      { repo: "acme/client", score: 0.6, hits: [{ term: "websocket", score: 0.6 }] },
+   ]);
+   assert.deepEqual(resolved.hint, { value: "websocket, reconnect, backoff", source: "search", repo: "acme/socket" });
+});
+
+test("taskSearchTerms uses task keywords and falls back to the trimmed task", () => {
+   assert.deepEqual(taskSearchTerms("Explain how the repository handles websocket reconnect backoff"), ["websocket", "reconnect", "backoff"]);
+   assert.deepEqual(taskSearchTerms("  how does\n it work?  "), ["how does it work?"]);
+});
+
+test("recommendCandidate picks a named repo or a clear score lead and explains close calls", () => {
+   const policy = DEFAULT_CONFIG.selection;
+   const close = [
+      { repo: "acme/repo", score: 0.92 },
+      { repo: "acme/repo-tools", score: 0.91 },
+   ];
+   assert.deepEqual(recommendCandidate(close, "how does repo-tools publish?", policy), {
+      candidate: close[1],
+      rationale: "the task names acme/repo-tools",
+   });
+   assert.deepEqual(recommendCandidate(close, "how does publishing work?", policy), {
+      rationale: "score 0.92 vs acme/repo-tools (0.91): margin 0.01 < 0.3, ratio 1.01 < 2",
+   });
+   assert.equal(recommendCandidate(close, "compare acme/repo and repo-tools", policy).candidate, close[0]);
+
+   const lead = [
+      { repo: "acme/low", score: 0.2 },
+      { repo: "acme/high", score: 0.45 },
+   ];
+   assert.deepEqual(recommendCandidate(lead, "anything", policy), {
+      candidate: lead[1],
+      rationale: "score 0.45 leads acme/low (0.2) by 0.56 of its score (margin 0.3)",
+   });
+   assert.deepEqual(recommendCandidate(lead, "anything", { ...policy, minScoreMargin: 0.6 }), {
+      candidate: lead[1],
+      rationale: "score 0.45 is 2.25x acme/low (0.2) (ratio 2)",
+   });
+   assert.equal(recommendCandidate(lead, "anything", { ...policy, minScoreMargin: 0.6, minScoreRatio: 3 }).candidate, undefined);
+});
+
+test("recommendCandidate compares relative leads so tied and integer mirror scores stay ambiguous", () => {
+   const policy = DEFAULT_CONFIG.selection;
+   const zero = [
+      { repo: "acme/a", score: 0 },
+      { repo: "acme/b", score: 0 },
+   ];
+   assert.deepEqual(recommendCandidate(zero, "anything", policy), { rationale: "score 0 ties acme/b (0)" });
+   const tied = [
+      { repo: "acme/a", score: 10 },
+      { repo: "acme/b", score: 10 },
+   ];
+   assert.equal(recommendCandidate(tied, "anything", policy).candidate, undefined);
+
+   const onePoint = [
+      { repo: "acme/router", score: 11, resolver: "mirror" },
+      { repo: "acme/router-docs", score: 10, resolver: "mirror" },
+   ];
+   assert.deepEqual(recommendCandidate(onePoint, "anything", policy), {
+      rationale: "score 11 vs acme/router-docs (10): margin 0.09 < 0.3, ratio 1.1 < 2",
+   });
+   const exact = [
+      { repo: "acme/router", score: 20, resolver: "mirror" },
+      { repo: "acme/router-docs", score: 10, resolver: "mirror" },
+   ];
+   assert.equal(recommendCandidate(exact, "anything", policy).candidate, exact[0]);
+});
+
+test("resolveRepoWithOffworld: headless runs auto-select a dominant match and interactive runs highlight it", async (t) => {
+   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-offworld-"));
+   t.after(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+   });
+   const clonePath = path.join(tmpDir, "clone");
+   const referencePath = path.join(tmpDir, "reference.md");
+   await fs.mkdir(clonePath, { recursive: true });
+   await markClonePresent(clonePath);
+   await fs.writeFile(referencePath, "# reference\n", "utf8");
+   const top = "badlogic/pi-mono";
+   const fallback = "default-anton/pi-librarian";
+   const pi = makePi(async (args) => {
+      const key = args.join(" ");
+      if (key === "--version") return ok("offworld v0.3.8");
+      if (key.startsWith("map search ")) {
+         return ok(
+            JSON.stringify(
+               [
+                  { fullName: fallback, score: 0.11 },
+                  { fullName: top, score: 0.97 },
+               ].map((entry) => ({
+                  qualifiedName: `github.com:${entry.fullName}`,
+                  fullName: entry.fullName,
+                  localPath: clonePath,
+                  primary: "reference.md",
+                  keywords: [],
+                  score: entry.score,
+               })),
+            ),
+         );
+      }
+      const show = key.match(/^map show (\S+) --json$/);
+      if (show) {
+         return ok(JSON.stringify({ found: true, qualifiedName: `github.com:${show[1]}`, scope: "global", localPath: clonePath, referencePath }));
+      }
+      return { code: 1, stdout: "", stderr: `unexpected command: ${key}` };
+   });
+   const task = "subagent";
+
+   const headless = await resolveRepoWithOffworld({ pi, ctx: makeCtx(false), task, selection: DEFAULT_CONFIG.selection });
+   assert.equal(headless.repo, top);
+   assert.deepEqual(headless.selection, {
+      repo: top,
+      method: "auto",
+      rationale: `score 0.97 leads ${fallback} (0.11) by 0.89 of its score (margin 0.3)`,
+   });
+
+   await assert.rejects(
+      () => resolveRepoWithOffworld({ pi, ctx: makeCtx(false), task, selection: { ...DEFAULT_CONFIG.selection, autoSelect: false } }),
+      (err: unknown) => (err as ReplicantOffworldError).code === "repo_ambiguous",
+   );
+
+   let offered: string[] = [];
+   const interactive = await resolveRepoWithOffworld({
+      pi,
+      ctx: makeCtx(true, async (_title, options) => {
+         offered = options;
+         return options[1];
+      }),
+      task,
+      selection: DEFAULT_CONFIG.selection,
+   });
+   assert.deepEqual(offered, [`${top} (score 0.97) [recommended]`, `${fallback} (score 0.11)`]);
+   assert.equal(interactive.repo, fallback);
+   assert.deepEqual(interactive.selection, {
+      repo: fallback,
+      method: "user",
+      rationale: `picked over the recommended ${top}`,
+      recommended: top,
+   });
+});
+
+test("resolveRepoWithOffworld: parallel calls for the same repo share map show and pull", async (t) => {
+   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-offworld-"));
+   t.after(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+   });
+   const repo = "acme/shared";
+   const clonePath = path.join(tmpDir, "clone");
+   const referencePath = path.join(tmpDir, "reference.md");
+   await fs.writeFile(referencePath, "# reference\n", "utf8");
+   let pulled = false;
+   const calls: string[] = [];
+   const pi = makePi(async (args) => {
+      const key = args.join(" ");
+      calls.push(key);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      if (key === "--version") return ok("offworld v0.3.8");
+      if (key === `map show ${repo} --json`) {
+         return ok(
+            JSON.stringify({
+               found: true,
+               qualifiedName: `github.com:${repo}`,
+               scope: "global",
+               localPath: pulled ? clonePath : undefined,
+               referencePath,
+            }),
+         );
+      }
+      if (key === `pull ${repo} --clone-only`) {
+         await markClonePresent(clonePath);
+         pulled = true;
+         return ok("");
+      }
+      return { code: 1, stdout: "", stderr: `unexpected command: ${key}` };
+   });
+
+   const [first, second] = await Promise.all([
+      resolveRepoWithOffworld({ pi, ctx: makeCtx(false), task: "explain", repoHint: repo }),
+      resolveRepoWithOffworld({ pi, ctx: makeCtx(false), task: "explain", repoHint: repo }),
+   ]);
+
+   assert.equal(first.clonePath, clonePath);
+   assert.equal(second.clonePath, clonePath);
+   assert.deepEqual(calls, ["--version", `map show ${repo} --json`, `pull ${repo} --clone-only`, `map show ${repo} --json`]);
+});
+
+test("parsePullProgress reports git object counts and percentages and passes other lines through", () => {
+   assert.equal(parsePullProgress("remote: Enumerating objects: 1234, done."), "enumerating objects 1234");
+   assert.equal(parsePullProgress("Receiving objects:  45% (450/1000), 1.20 MiB | 2.30 MiB/s"), "receiving objects 45% (450/1000)");
+   assert.equal(parsePullProgress("Resolving deltas: 100% (80/80), done."), "resolving deltas 100% (80/80)");
+   assert.equal(parsePullProgress("Cloning into '/tmp/repo'..."), "Cloning into '/tmp/repo'...");
+   assert.equal(parsePullProgress("   "), undefined);
+});
+
+test("offworld resolver streams pull progress into onStatus and reports pull timeouts", async (t) => {
+   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-offworld-"));
+   t.after(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+   });
+   const repo = "acme/big";
+   const clonePath = path.join(tmpDir, "clone");
+   const referencePath = path.join(tmpDir, "reference.md");
+   await fs.writeFile(referencePath, "# reference\n", "utf8");
+   let pulled = false;
+   let pullResult: ExecResult & { killed?: boolean } = { stdout: "", stderr: "", code: 0 };
+   const pi = makePi(async (args) => {
+      const key = args.join(" ");
+      if (key === "--version") return ok("offworld v0.3.8");
+      if (key === `map show ${repo} --json`) {
+         return ok(JSON.stringify({ found: true, qualifiedName: `github.com:${repo}`, scope: "global", localPath: pulled ? clonePath : undefined, referencePath }));
+      }
+      if (key === `pull ${repo} --clone-only`) return pullResult;
+      return { code: 1, stdout: "", stderr: `unexpected command: ${key}` };
+   });
+   const timeouts: number[] = [];
+   const exec = async (_command: string, args: string[], options: { timeout?: number; onOutput?: (chunk: string, stream: "stdout" | "stderr") => void }) => {
+      assert.deepEqual(args, ["pull", repo, "--clone-only"]);
+      timeouts.push(options.timeout ?? 0);
+      for (const chunk of ["Cloning into 'big'...\nReceiving objects:  10% (1/10)\r", "Receiving obj", "ects:  10% (1/10)\rReceiving objects: 100% (10/10), done.\n"]) {
+         options.onOutput?.(chunk, "stderr");
+      }
+      await markClonePresent(clonePath);
+      pulled = true;
+      return { stdout: "", stderr: "", code: 0, killed: false };
+   };
+
+   const statuses: string[] = [];
+   const resolved = await resolveRepo({
+      pi,
+      ctx: makeCtx(false),
+      task: "explain",
+      repoHint: repo,
+      onStatus: (status) => statuses.push(status),
+      resolvers: [createOffworldResolver({ exec, timeouts: { pullMs: 5000 } })],
+   });
+   assert.equal(resolved.resolvedFrom, "pulled");
+   assert.deepEqual(timeouts, [5000]);
+   const command = `pulling-repo (ow pull ${repo} --clone-only)`;
+   assert.deepEqual(statuses.filter((status) => status.startsWith("pulling-repo")), [
+      command,
+      `${command}: Cloning into 'big'...`,
+      `${command}: receiving objects 10% (1/10)`,
+      `${command}: receiving objects 100% (10/10)`,
+   ]);
+
+   pulled = false;
+   await fs.rm(path.join(clonePath, ".git"), { recursive: true });
+   pullResult = { stdout: "", stderr: "Receiving objects:  3%", code: 1, killed: true };
+   await assert.rejects(
+      () =>
+         resolveRepo({
+            pi,
+            ctx: makeCtx(false),
+            task: "explain",
+            repoHint: repo,
+            resolvers: [createOffworldResolver({ timeouts: { pullMs: 90_000 } })],
+         }),
+      (err: unknown) => {
+         const offworldErr = err as ReplicantOffworldError;
+         assert.equal(offworldErr.code, "pull_timeout");
+         assert.equal(offworldErr.message, `Pulling ${repo} timed out after 90s.`);
+         assert.match(String(offworldErr.remediation), /ow pull acme\/big --clone-only, or raise offworld\.pullTimeoutSeconds/);
+         return true;
+      },
+   );
+});
+
+test("resolveLocalRepo: resolves a relative directory and prefers AGENTS.md as reference", async (t) => {
+   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-local-"));
+   t.after(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+   });
+   const repoPath = path.join(tmpDir, "vendor", "fork");
+   await fs.mkdir(repoPath, { recursive: true });
+   await fs.writeFile(path.join(repoPath, "README.md"), "# fork\n");
+   await fs.writeFile(path.join(repoPath, "AGENTS.md"), "# agents\n");
+
+   const resolved = await resolveLocalRepo({ path: "vendor/fork", cwd: tmpDir });
+   assert.equal(resolved.repo, "fork");
+   assert.equal(resolved.clonePath, repoPath);
+   assert.equal(resolved.qualifiedName, `local:${repoPath}`);
+   assert.equal(resolved.referencePath, path.join(repoPath, "AGENTS.md"));
+   assert.equal(resolved.resolvedFrom, "local");
+   assert.deepEqual(resolved.searchCandidates, []);
+});
+
+test("resolveLocalRepo: rejects missing directories and non-clones when git is required", async (t) => {
+   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-local-"));
+   t.after(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+   });
+
+   await assert.rejects(
+      () => resolveLocalRepo({ path: "missing", cwd: tmpDir }),
+      (err: unknown) => (err as ReplicantOffworldError).code === "path_invalid",
+   );
+   await assert.rejects(
+      () => resolveLocalRepo({ path: tmpDir, cwd: "/", requireGit: true }),
+      (err: unknown) => (err as ReplicantOffworldError).code === "path_invalid",
+   );
+
+   const resolved = await resolveLocalRepo({ path: tmpDir, cwd: "/" });
+   assert.equal(resolved.referencePath, "");
 });
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import test from "node:test";
+import { ReplicantRefError, materializeRef, pruneRefExports } from "../extensions/replicant/refs";
+import { git, makePi } from "./helpers";
+
+async function makeClone(t: { after: (fn: () => Promise<void>) => void }) {
+   const root = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-refs-"));
+   t.after(async () => {
+      await fs.rm(root, { recursive: true, force: true });
+   });
+   const clonePath = path.join(root, "clone");
+   await fs.mkdir(clonePath, { recursive: true });
+   await git(clonePath, "init", "--quiet");
+   await fs.writeFile(path.join(clonePath, "version.txt"), "one\n", "utf8");
+   await git(clonePath, "add", "-A");
+   await git(clonePath, "commit", "--quiet", "-m", "one");
+   await git(clonePath, "tag", "v1.0.0");
+   await fs.writeFile(path.join(clonePath, "version.txt"), "two\n", "utf8");
+   await git(clonePath, "commit", "--quiet", "-am", "two");
+   return { clonePath, dir: path.join(root, "exports") };
+}
+
+test("materializeRef exports a read-only snapshot of the ref and reuses it", async (t) => {
+   const { clonePath, dir } = await makeClone(t);
+   const options = { pi: makePi(), repo: "acme/widget", clonePath, ref: "v1.0.0", dir, maxExports: 5 };
+
+   const first = await materializeRef(options);
+   const second = await materializeRef(options);
+
+   assert.match(first.commit, /^[0-9a-f]{40}$/);
+   assert.equal(first.path, path.join(dir, "acme__widget", first.commit));
+   assert.equal(await fs.readFile(path.join(first.path, "version.txt"), "utf8"), "one\n");
+   assert.equal((await fs.stat(path.join(first.path, "version.txt"))).mode & 0o222, 0);
+   assert.equal(first.reused, false);
+   assert.equal(second.reused, true);
+   assert.equal(await fs.readFile(path.join(clonePath, "version.txt"), "utf8"), "two\n");
+});
+
+test("materializeRef rejects unknown and malformed refs", async (t) => {
+   const { clonePath, dir } = await makeClone(t);
+   const base = { pi: makePi(), repo: "acme/widget", clonePath, dir, maxExports: 5 };
+
+   await assert.rejects(() => materializeRef({ ...base, ref: "v9.9.9" }), ReplicantRefError);
+   await assert.rejects(() => materializeRef({ ...base, ref: "--upload-pack=x" }), /Invalid ref/);
+});
+
+test("materializeRef lets parallel calls export the same commit without clobbering each other", async (t) => {
+   const { clonePath, dir } = await makeClone(t);
+   const options = { pi: makePi(), repo: "acme/widget", clonePath, ref: "v1.0.0", dir, maxExports: 5 };
+
+   const [first, second] = await Promise.all([materializeRef(options), materializeRef(options)]);
+
+   assert.equal(first.path, second.path);
+   assert.equal(await fs.readFile(path.join(first.path, "version.txt"), "utf8"), "one\n");
+   assert.deepEqual(await fs.readdir(path.dirname(first.path)), [first.commit]);
+});
+
+test("pruneRefExports keeps exports that a run or kept session still holds", async (t) => {
+   const { clonePath, dir } = await makeClone(t);
+   await git(clonePath, "tag", "v2.0.0");
+   const base = { pi: makePi(), repo: "acme/widget", clonePath, dir, maxExports: 1 };
+
+   const old = await materializeRef({ ...base, ref: "v1.0.0" });
+   const current = await materializeRef({ ...base, ref: "v2.0.0" });
+   assert.equal(await fs.readFile(path.join(old.path, "version.txt"), "utf8"), "one\n");
+
+   old.release();
+   await pruneRefExports(dir, 1, current.path);
+   await assert.rejects(fs.access(old.path));
+   await fs.access(current.path);
+   current.release();
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { ReplicantQueueError, createSingleFlight, createSubagentScheduler } from "../extensions/replicant/scheduler";
+
+test("createSubagentScheduler runs up to the limit and starts queued calls in FIFO order", async () => {
+   const scheduler = createSubagentScheduler();
+   const positions: Record<string, number[]> = { b: [], c: [] };
+   const started: string[] = [];
+
+   const releaseA = await scheduler.acquire({ limit: 1 });
+   const b = scheduler.acquire({ limit: 1, onQueued: (position) => positions.b.push(position) }).then((release) => {
+      started.push("b");
+      return release;
+   });
+   const c = scheduler.acquire({ limit: 1, onQueued: (position) => positions.c.push(position) }).then((release) => {
+      started.push("c");
+      return release;
+   });
+   assert.deepEqual([scheduler.active(), scheduler.queued()], [1, 2]);
+
+   releaseA();
+   releaseA();
+   const releaseB = await b;
+   assert.deepEqual(started, ["b"]);
+   assert.deepEqual([scheduler.active(), scheduler.queued()], [1, 1]);
+   releaseB();
+   (await c)();
+
+   assert.deepEqual(started, ["b", "c"]);
+   assert.deepEqual(positions, { b: [1], c: [2, 1] });
+   assert.deepEqual([scheduler.active(), scheduler.queued()], [0, 0]);
+});
+
+test("createSubagentScheduler drops a call canceled while queued and moves the others up", async () => {
+   const scheduler = createSubagentScheduler();
+   const release = await scheduler.acquire({ limit: 1 });
+   const controller = new AbortController();
+   const positions: number[] = [];
+
+   const canceled = scheduler.acquire({ limit: 1, signal: controller.signal });
+   const waiting = scheduler.acquire({ limit: 1, onQueued: (position) => positions.push(position) });
+   controller.abort();
+
+   await assert.rejects(canceled, (error: unknown) => error instanceof ReplicantQueueError && /canceled while waiting/.test(error.message));
+   assert.deepEqual(positions, [2, 1]);
+   release();
+   (await waiting)();
+   assert.equal(scheduler.active(), 0);
+});
+
+test("createSingleFlight shares one run per key and aborts it only when every caller gave up", async () => {
+   const flights = createSingleFlight();
+   let runs = 0;
+   let finish: (value: string) => void = () => undefined;
+   let sharedSignal: AbortSignal | undefined;
+   const work = (signal: AbortSignal) => {
+      runs += 1;
+      sharedSignal = signal;
+      return new Promise<string>((resolve) => {
+         finish = resolve;
+      });
+   };
+
+   const first = new AbortController();
+   const second = new AbortController();
+   const a = flights.run("pull acme/repo", first.signal, work);
+   const b = flights.run("pull acme/repo", second.signal, work);
+   first.abort(new Error("first canceled"));
+   await assert.rejects(a, /first canceled/);
+   assert.equal(sharedSignal?.aborted, false);
+
+   finish("pulled");
+   assert.equal(await b, "pulled");
+   assert.equal(runs, 1);
+
+   const lone = new AbortController();
+   const c = flights.run("pull acme/repo", lone.signal, work);
+   lone.abort(new Error("lone canceled"));
+   await assert.rejects(c, /lone canceled/);
+   assert.equal(sharedSignal?.aborted, true);
+   assert.equal(runs, 2);
+});
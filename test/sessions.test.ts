@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { ReplicantSessionError, createSessionStore } from "../extensions/replicant/sessions";
+import type { ReplicantLiveSession } from "../extensions/replicant/subproc";
+
+function makeLive() {
+   const live = {
+      disposed: 0,
+      maxTurns: 4,
+      maxToolCalls: 10,
+      toolCallsUsed: () => 0,
+      continue: async () => {
+         throw new Error("not used");
+      },
+      dispose() {
+         live.disposed += 1;
+      },
+   };
+   return live satisfies ReplicantLiveSession;
+}
+
+const LIMITS = { idleMs: 60_000, maxSessions: 2 };
+
+test("session store rejects unknown and busy sessions", () => {
+   const store = createSessionStore<string>();
+   const stored = store.add(makeLive(), "acme/router", LIMITS)!;
+
+   assert.match(stored.id, /^rpl-[0-9a-f]{12}$/);
+   assert.throws(() => store.acquire("rpl-000000000000"), ReplicantSessionError);
+   assert.equal(store.acquire(stored.id).context, "acme/router");
+   assert.throws(() => store.acquire(stored.id), /already answering/);
+
+   store.release(stored.id, true);
+   assert.equal(store.acquire(stored.id).followUps, 1);
+   store.clear();
+});
+
+test("session store evicts the least recently used idle session at capacity", () => {
+   const store = createSessionStore<string>();
+   const lives = [makeLive(), makeLive(), makeLive()];
+   const first = store.add(lives[0], "one", LIMITS)!;
+   const second = store.add(lives[1], "two", LIMITS)!;
+   store.acquire(second.id);
+
+   const third = store.add(lives[2], "three", LIMITS);
+   assert.ok(third);
+   assert.equal(lives[0].disposed, 1);
+   assert.throws(() => store.acquire(first.id), /not active/);
+
+   store.acquire(third.id);
+   const fourth = makeLive();
+   assert.equal(store.add(fourth, "four", LIMITS), undefined);
+   assert.equal(fourth.disposed, 1);
+   store.clear();
+   assert.equal(store.size(), 0);
+   assert.equal(lives[1].disposed + lives[2].disposed, 2);
+});
+
+test("session store disposes sessions after the idle timeout", async () => {
+   const store = createSessionStore<string>();
+   const live = makeLive();
+   store.add(live, "idle", { idleMs: 10, maxSessions: 2 });
+
+   await new Promise((resolve) => setTimeout(resolve, 30));
+   assert.equal(live.disposed, 1);
+   assert.equal(store.size(), 0);
+});
@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { parseStructuredAnswer } from "../extensions/replicant/structured";
+
+const VALID = {
+   answer: "Routes are matched in `matchRoute`.",
+   citations: [{ path: "src/router.ts", startLine: 10, endLine: 24, claim: "matchRoute walks the route tree" }],
+   uncertainties: [],
+};
+
+test("parseStructuredAnswer accepts bare and fenced JSON", () => {
+   const bare = parseStructuredAnswer(JSON.stringify(VALID));
+   const fenced = parseStructuredAnswer(`\`\`\`json\n${JSON.stringify(VALID, null, 2)}\n\`\`\``);
+
+   assert.deepEqual(bare, { ok: true, value: VALID });
+   assert.deepEqual(fenced, { ok: true, value: VALID });
+});
+
+test("parseStructuredAnswer reports schema violations", () => {
+   const result = parseStructuredAnswer(JSON.stringify({ ...VALID, citations: [{ path: "src/router.ts", startLine: 0 }] }));
+
+   assert.equal(result.ok, false);
+   assert.match(!result.ok ? result.error : "", /does not match the schema: \/citations\/0/);
+});
+
+test("parseStructuredAnswer rejects prose and reversed line ranges", () => {
+   const prose = parseStructuredAnswer("The router lives in src/router.ts.");
+   const reversed = parseStructuredAnswer(
+      JSON.stringify({ ...VALID, citations: [{ path: "src/router.ts", startLine: 24, endLine: 10, claim: "x" }] }),
+   );
+
+   assert.match(!prose.ok ? prose.error : "", /not valid JSON/);
+   assert.match(!reversed.ok ? reversed.error : "", /endLine 10 before startLine 24/);
+});
@@ -2,7 +2,9 @@ import assert from "node:assert/strict";
 import * as path from "node:path";
 import test from "node:test";
 import {
+   getToolCallPolicyDecision,
    getToolCallPolicyViolation,
+   normalizePolicyArgs,
    runReplicantSubprocess,
    type ReplicantSessionFactory,
    type ReplicantSessionLike,
@@ -190,6 +192,77 @@ test("runReplicantSubprocess errors when turn-budget tool block yields no final
    );
 });
 
+test("runReplicantSubprocess re-prompts once when repairPrompt rejects the answer", async () => {
+   const prompts: string[] = [];
+   const result = await runReplicantSubprocess({
+      cwd: process.cwd(),
+      systemPrompt: "sys",
+      taskPrompt: "task",
+      tools: ["read"],
+      repairPrompt: (finalText) => (finalText.startsWith("{") ? undefined : "reply with JSON"),
+      sessionFactory: makeFactory(async (session, text) => {
+         prompts.push(text);
+         const message = {
+            role: "assistant",
+            content: [{ type: "text", text: prompts.length === 1 ? "prose answer" : "{\"answer\":\"ok\"}" }],
+            stopReason: "end_turn",
+         };
+         session.state.messages.push(message);
+         session.emit({ type: "message_end", message });
+      }),
+   });
+
+   assert.deepEqual(prompts, ["task", "reply with JSON"]);
+   assert.equal(result.details.repairAttempts, 1);
+   assert.equal(result.finalText, "{\"answer\":\"ok\"}");
+});
+
+test("runReplicantSubprocess keeps the session alive for follow-ups when asked", async () => {
+   const prompts: string[] = [];
+   let created = 0;
+   let disposed = 0;
+   const factory: ReplicantSessionFactory = async (input) => {
+      created += 1;
+      const session = new FakeSession(async (fake, text) => {
+         prompts.push(text);
+         input.policyState.toolCalls += 1;
+         fake.emit({ type: "tool_execution_start", toolName: "read", args: { path: "README.md" } });
+         const message = { role: "assistant", content: [{ type: "text", text: `answer ${prompts.length}` }], stopReason: "end_turn" };
+         fake.state.messages.push(message);
+         fake.emit({ type: "message_end", message });
+      });
+      session.dispose = () => {
+         disposed += 1;
+      };
+      return session;
+   };
+
+   const first = await runReplicantSubprocess({
+      cwd: process.cwd(),
+      systemPrompt: "sys",
+      taskPrompt: "task",
+      tools: ["read"],
+      maxToolCalls: 10,
+      keepAlive: true,
+      sessionFactory: factory,
+   });
+   assert.ok(first.session);
+   assert.equal(disposed, 0);
+
+   const shared = await first.session.continue({ taskPrompt: "follow-up", budget: "shared" });
+   assert.equal(shared.finalText, "answer 2");
+   assert.equal(shared.details.toolCalls, 2);
+   assert.equal(first.session.toolCallsUsed(), 2);
+
+   const refreshed = await first.session.continue({ taskPrompt: "another", budget: "refresh" });
+   assert.equal(refreshed.details.toolCalls, 1);
+
+   first.session.dispose();
+   assert.deepEqual(prompts, ["task", "follow-up", "another"]);
+   assert.equal(created, 1);
+   assert.equal(disposed, 1);
+});
+
 test("getToolCallPolicyViolation rejects out-of-scope read path", () => {
    const cwd = process.cwd();
    const violation = getToolCallPolicyViolation({
@@ -209,6 +282,25 @@ test("getToolCallPolicyViolation rejects out-of-scope read path", () => {
    assert.match(String(violation), /out-of-scope read path: \/etc\/passwd/);
 });
 
+test("getToolCallPolicyViolation rejects out-of-scope git history paths", () => {
+   const cwd = process.cwd();
+   const violation = getToolCallPolicyViolation({
+      toolName: "git_blame",
+      input: { path: "../other/secret.ts" },
+      turnIndex: 0,
+      toolCalls: 0,
+      maxTurns: 6,
+      maxToolCalls: 24,
+      scope: {
+         cwd,
+         allowedRoots: [cwd],
+         allowedFiles: [],
+      },
+   } as any);
+
+   assert.match(String(violation), /out-of-scope git_blame path: \.\.\/other\/secret\.ts/);
+});
+
 test("getToolCallPolicyViolation rejects unsafe find glob traversal", () => {
    const cwd = process.cwd();
    const violation = getToolCallPolicyViolation({
@@ -284,3 +376,160 @@ test("getToolCallPolicyViolation allows in-scope read", () => {
 
    assert.equal(violation, undefined);
 });
+
+test("runReplicantSubprocess records token usage per turn and in total", async () => {
+   const usage = (input: number, output: number, cost: number) => ({
+      input,
+      output,
+      cacheRead: 100,
+      cacheWrite: 0,
+      totalTokens: input + output + 100,
+      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: cost },
+   });
+
+   const result = await runReplicantSubprocess({
+      cwd: process.cwd(),
+      systemPrompt: "sys",
+      taskPrompt: "task",
+      tools: ["read"],
+      sessionFactory: makeFactory(async (session) => {
+         session.emit({
+            type: "message_end",
+            message: { role: "assistant", model: "m1", content: [], stopReason: "toolUse", usage: usage(1000, 50, 0.01) },
+         });
+         session.emit({ type: "turn_end" });
+         const message = { role: "assistant", model: "m1", content: [{ type: "text", text: "done" }], stopReason: "stop", usage: usage(1200, 300, 0.02) };
+         session.state.messages.push(message);
+         session.emit({ type: "message_end", message });
+         session.emit({ type: "message_end", message: { role: "user", content: [], usage: usage(999, 999, 9) } });
+         session.emit({ type: "turn_end" });
+      }),
+   });
+
+   const recorded = result.details.usage!;
+   assert.equal(recorded.input, 2200);
+   assert.equal(recorded.output, 350);
+   assert.equal(recorded.cacheRead, 200);
+   assert.equal(recorded.totalTokens, 2750);
+   assert.ok(Math.abs(recorded.cost - 0.03) < 1e-9);
+   assert.deepEqual(
+      recorded.turns.map((turn) => [turn.turn, turn.model, turn.input]),
+      [
+         [1, "m1", 1000],
+         [2, "m1", 1200],
+      ],
+   );
+});
+
+test("getToolCallPolicyDecision classifies scope, glob and budget blocks", () => {
+   const cwd = process.cwd();
+   const base = { turnIndex: 0, toolCalls: 0, maxTurns: 6, maxToolCalls: 24, scope: { cwd, allowedRoots: [cwd], allowedFiles: [] } };
+
+   assert.equal(getToolCallPolicyDecision({ ...base, toolName: "read", input: { path: "src/a.ts" } }).decision, "allowed");
+   assert.equal(getToolCallPolicyDecision({ ...base, toolName: "read", input: { path: "/etc/passwd" } }).decision, "blocked-scope");
+   assert.equal(getToolCallPolicyDecision({ ...base, toolName: "grep", input: { pattern: "x", glob: "../*.ts" } }).decision, "blocked-glob");
+   assert.equal(getToolCallPolicyDecision({ ...base, toolName: "ls", input: {}, toolCalls: 24 }).decision, "blocked-budget");
+});
+
+test("normalizePolicyArgs makes in-scope paths relative and trims strings", () => {
+   const cwd = process.cwd();
+   const scope = { cwd, allowedRoots: [cwd], allowedFiles: [] };
+   assert.deepEqual(normalizePolicyArgs({ path: `@${path.join(cwd, "src", "a.ts")}`, pattern: "  foo  ", limit: 5, glob: undefined }, scope), {
+      path: path.join("src", "a.ts"),
+      pattern: "foo",
+      limit: 5,
+   });
+   assert.deepEqual(normalizePolicyArgs({ file_path: "../outside.ts" }, scope), { file_path: path.resolve(cwd, "../outside.ts") });
+});
+
+test("runReplicantSubprocess records every policy decision of the run in details", async () => {
+   let factoryInput: ReplicantSessionFactoryInput | undefined;
+   const result = await runReplicantSubprocess({
+      cwd: process.cwd(),
+      systemPrompt: "sys",
+      taskPrompt: "task",
+      tools: ["read"],
+      sessionFactory: makeFactory(
+         async (session) => {
+            factoryInput!.policyState.decisions.push(
+               { toolCallId: "1", toolName: "read", args: { path: "a.ts" }, decision: "allowed", turnIndex: 0, timestamp: 1 },
+               { toolCallId: "2", toolName: "read", args: { path: ".env" }, decision: "blocked-sensitive", reason: "secret", turnIndex: 0, timestamp: 2 },
+            );
+            const message = { role: "assistant", content: [{ type: "text", text: "answer" }], stopReason: "stop" };
+            session.state.messages.push(message);
+            session.emit({ type: "message_end", message });
+         },
+         undefined,
+         (input) => {
+            factoryInput = input;
+         },
+      ),
+   });
+
+   assert.deepEqual(
+      result.details.policyDecisions?.map((decision) => [decision.toolCallId, decision.decision]),
+      [
+         ["1", "allowed"],
+         ["2", "blocked-sensitive"],
+      ],
+   );
+});
+
+test("getToolCallPolicyDecision marks exhausted tool call and soft time budgets", () => {
+   const cwd = process.cwd();
+   const base = { turnIndex: 0, toolCalls: 0, maxTurns: 6, maxToolCalls: 24, scope: { cwd, allowedRoots: [cwd], allowedFiles: [] } };
+   const timeBudget = { budgetMs: 60_000, deadline: 1_000 };
+
+   assert.equal(getToolCallPolicyDecision({ ...base, toolName: "ls", input: {}, toolCalls: 24 }).exhausted, "tool_calls");
+   assert.equal(getToolCallPolicyDecision({ ...base, toolName: "ls", input: {}, timeBudget, now: 999 }).decision, "allowed");
+   const late = getToolCallPolicyDecision({ ...base, toolName: "ls", input: {}, timeBudget, now: 1_000 });
+   assert.equal(late.exhausted, "time");
+   assert.match(String(late.reason), /soft time budget exceeded \(60s\)/);
+   const after = getToolCallPolicyDecision({ ...base, toolName: "read", input: { path: "src/a.ts" }, exhausted: "tool_calls" });
+   assert.deepEqual([after.decision, after.exhausted], ["blocked-budget", "tool_calls"]);
+});
+
+test("runReplicantSubprocess returns the wrap-up answer as done when a budget ran out", async () => {
+   let factoryInput: ReplicantSessionFactoryInput | undefined;
+   const prompts: string[] = [];
+   const result = await runReplicantSubprocess({
+      cwd: process.cwd(),
+      systemPrompt: "sys",
+      taskPrompt: "task",
+      tools: ["read"],
+      softTimeBudgetMs: 30_000,
+      sessionFactory: makeFactory(
+         async (session, text) => {
+            prompts.push(text);
+            assert.equal(factoryInput!.policyState.timeBudget?.budgetMs, 30_000);
+            factoryInput!.policyState.budgetExhausted = "tool_calls";
+            factoryInput!.policyState.decisions.push({
+               toolCallId: "1",
+               toolName: "read",
+               args: { path: "a.ts" },
+               decision: "blocked-budget",
+               reason: "tool call budget exceeded",
+               turnIndex: 3,
+               timestamp: 1,
+            });
+            const message = {
+               role: "assistant",
+               content: [{ type: "text", text: "partial answer\n\nOpen questions:\n- where is retry configured?" }],
+               stopReason: "stop",
+            };
+            session.state.messages.push(message);
+            session.emit({ type: "message_end", message });
+         },
+         undefined,
+         (input) => {
+            factoryInput = input;
+         },
+      ),
+   });
+
+   assert.deepEqual(prompts, ["task"]);
+   assert.equal(result.details.phase, "done");
+   assert.equal(result.details.budgetExhausted, "tool_calls");
+   assert.equal(result.details.exitCode, 0);
+   assert.match(result.finalText, /Open questions/);
+});
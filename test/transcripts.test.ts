@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import test from "node:test";
+import type { ReplicantSubprocessDetails } from "../extensions/replicant/subproc";
+import {
+   formatTranscript,
+   listTranscripts,
+   readTranscript,
+   writeTranscript,
+   type WriteTranscriptInput,
+} from "../extensions/replicant/transcripts";
+
+function makeDetails(): ReplicantSubprocessDetails {
+   return {
+      phase: "done",
+      message: "completed",
+      toolCalls: 1,
+      toolErrors: 0,
+      turns: 2,
+      maxTurns: 10,
+      maxToolCalls: 60,
+      events: [],
+   };
+}
+
+async function makeDir(t: { after: (fn: () => Promise<void>) => void }): Promise<string> {
+   const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pi-replicant-transcripts-"));
+   t.after(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+   });
+   return dir;
+}
+
+function makeInput(dir: string, overrides: Partial<WriteTranscriptInput> = {}): WriteTranscriptInput {
+   return {
+      dir,
+      label: "owner/repo",
+      maxResultBytes: 256,
+      maxFiles: 10,
+      meta: { task: "how does routing work?" },
+      systemPrompt: "sys",
+      prompts: ["task prompt"],
+      messages: [
+         { role: "user", content: [{ type: "text", text: "task prompt" }] },
+         { role: "assistant", content: [{ type: "toolCall", id: "1", name: "read", arguments: { path: "src/router.ts" } }] },
+         {
+            role: "toolResult",
+            toolCallId: "1",
+            toolName: "read",
+            content: [{ type: "text", text: "x".repeat(1000) }, { type: "image", mimeType: "image/png", data: "AAAA" }],
+            isError: false,
+         },
+         { role: "assistant", content: [{ type: "text", text: "Routing lives in src/router.ts:1-10." }] },
+      ],
+      policyBlocks: [{ toolName: "read", input: { path: "/etc/passwd" }, reason: "out of scope", turnIndex: 0, timestamp: 1 }],
+      details: makeDetails(),
+      ...overrides,
+   };
+}
+
+test("writeTranscript stores prompts, capped tool results and policy blocks as JSONL", async (t) => {
+   const dir = await makeDir(t);
+   const filePath = await writeTranscript(makeInput(dir));
+
+   assert.equal(path.dirname(filePath), dir);
+   assert.match(path.basename(filePath), /owner_repo-[0-9a-f]{6}\.jsonl$/);
+
+   const entries = await readTranscript(filePath);
+   assert.deepEqual(
+      entries.map((entry) => entry.type),
+      ["header", "prompt", "message", "message", "message", "message", "policy_block", "summary"],
+   );
+
+   const toolResult = entries.find((entry) => entry.type === "message" && entry.index === 2);
+   const content = (toolResult as { message: { content: Array<{ type: string; text?: string; omitted?: boolean }> } }).message.content;
+   assert.ok(content[0].text!.length < 400);
+   assert.match(content[0].text!, /744 more bytes omitted/);
+   assert.deepEqual(content[1], { type: "image", mimeType: "image/png", omitted: true });
+
+   const formatted = formatTranscript(entries);
+   assert.match(formatted, /-> read \{"path":"src\/router\.ts"\}/);
+   assert.match(formatted, /policy block \(turn 1\): read\nout of scope/);
+});
+
+test("listTranscripts returns newest first and writeTranscript prunes beyond maxFiles", async (t) => {
+   const dir = await makeDir(t);
+   const first = await writeTranscript(makeInput(dir, { label: "a/first", now: () => 1_000 }));
+   await fs.utimes(first, new Date(1_000), new Date(1_000));
+   const second = await writeTranscript(makeInput(dir, { label: "b/second", now: () => 2_000 }));
+   await fs.utimes(second, new Date(2_000), new Date(2_000));
+
+   const listed = await listTranscripts(dir, 10);
+   assert.deepEqual(
+      listed.map((summary) => summary.label),
+      ["b/second", "a/first"],
+   );
+   assert.equal(listed[1].meta?.task, "how does routing work?");
+
+   const third = await writeTranscript(makeInput(dir, { label: "c/third", maxFiles: 2 }));
+   const remaining = (await listTranscripts(dir, 10)).map((summary) => summary.path);
+   assert.deepEqual(remaining.sort(), [second, third].sort());
+});